@@ -1,7 +1,8 @@
-import { equals } from "ramda"
-import { useCallback, useEffect, useState } from "react"
+import { useCallback, useContext, useEffect, useRef, useState } from "react"
 import { FormContext } from "./form"
 import { useFormAction } from "./hooks"
+import { FormDefaults } from "./options"
+import { definedProps } from "./util"
 
 /**
  * An autosave trigger. Immediate will fire on change, delayed will fire on blur and commit.
@@ -9,15 +10,50 @@ import { useFormAction } from "./hooks"
 export type AutoSubmitTrigger = "change" | "touch" | "commit" | "blur" | "focus"
 
 /**
- * The autosave options. Note that you, or the autosave will not take effect.
- * @typeParam T The form's value type.
+ * When to flush a pending autosave. Hide fires when the page is hidden (visibilitychange or pagehide), unload on beforeunload.
  */
-export interface AutoSubmitOptions<T> {
+export type AutoSubmitFlushTrigger = "unmount" | "hide" | "unload"
+
+/**
+ * The state of an autosave, for binding to a "Saving…/Saved" indicator.
+ */
+export type AutoSubmitState = "idle" | "scheduled" | "saving" | "saved" | "error"
+
+/**
+ * How to retry failed autosaves. The delay grows exponentially with each consecutive failure.
+ */
+export interface AutoSubmitRetryOptions {
 
     /**
-     * The form context.
+     * The maximum number of retries after a failure.
+     * @defaultValue `3`
      */
-    readonly form: FormContext<T>
+    readonly attempts?: number | undefined
+
+    /**
+     * The delay before the first retry, in milliseconds.
+     * @defaultValue `1000`
+     */
+    readonly delay?: number | undefined
+
+    /**
+     * The factor the delay is multiplied by for each further retry.
+     * @defaultValue `2`
+     */
+    readonly factor?: number | undefined
+
+    /**
+     * The maximum delay, in milliseconds.
+     * @defaultValue `30000`
+     */
+    readonly maxDelay?: number | undefined
+
+}
+
+/**
+ * Autosave options that are not specific to a form. These can also be provided app-wide through a FormDefaultsProvider.
+ */
+export interface UniversalAutoSubmitOptions {
 
     /**
      * Set this to true to disable autosaving.
@@ -27,14 +63,47 @@ export interface AutoSubmitOptions<T> {
     /**
      * The autosave triggers. We recommend setting the delay to 100 milliseconds at the least, for a debouncing effect.
      */
-    readonly on: {
+    readonly on?: {
 
         /**
          * The trigger and debounce time. Note: We recommend NOT to use change. Use touch instead. Change will trigger any time a value is changed. Touch will trigger every time a value is changed unless you pass suppressTouch = true to setValue. This will allow you to make updates that do not trigger an automatic submit.
          */
         readonly [K in AutoSubmitTrigger]?: number | undefined
 
-    }
+    } | undefined
+
+    /**
+     * Retry failed autosaves. An autosave fails if the submitter returns errors or throws. Retries are disabled by default.
+     */
+    readonly retry?: AutoSubmitRetryOptions | undefined
+
+    /**
+     * Submit a pending autosave immediately when the component unmounts or the page is hidden or unloaded, instead of losing it.
+     * Flushing on unmount requires a beacon, as the form can no longer submit once its component is gone.
+     */
+    readonly flushOn?: {
+
+        readonly [K in AutoSubmitFlushTrigger]?: boolean | undefined
+
+    } | undefined
+
+}
+
+/**
+ * The autosave options. Note that you, or the autosave will not take effect.
+ * @typeParam T The form's value type.
+ */
+export interface AutoSubmitOptions<T> extends UniversalAutoSubmitOptions {
+
+    /**
+     * The form context.
+     */
+    readonly form: FormContext<T>
+
+    /**
+     * A submitter used instead of the form's when flushing on unmount or when the page is hidden or unloaded, as regular submissions may not complete then. Use something fire-and-forget, like navigator.sendBeacon. Required for flushing on unmount.
+     */
+    readonly beacon?: ((value: T) => void) | undefined
 
 }
 
@@ -59,24 +128,54 @@ export interface AutoSubmitStatus {
     readonly pending: boolean
 
     /**
-     * The number of autosaves completed.
+     * The state of this autosave.
+     */
+    readonly status: AutoSubmitState
+
+    /**
+     * The number of autosaves completed successfully.
      */
-    // readonly count: number
+    readonly count: number
+
+    /**
+     * The number of consecutive failed autosaves.
+     */
+    readonly failures: number
+
+    /**
+     * The cause of the last failed autosave: the thrown exception, or the errors returned by the submitter. Cleared by a successful autosave.
+     */
+    readonly lastError: unknown
 
     /**
      * Cancel any pending autosaves.
      */
     cancel(): void
 
+    /**
+     * Submit any pending autosave immediately.
+     */
+    flush(): void
+
 }
 
 /**
  * Attach autosaving functionality to a form.
  * @typeParam T The form's value type.
- * @param options The configuration object.
+ * @param input The configuration object.
  * @returns Autosave status.
  */
-export function useAutoSubmit<T>(options: AutoSubmitOptions<T>): AutoSubmitStatus {
+export function useAutoSubmit<T>(input: AutoSubmitOptions<T>): AutoSubmitStatus {
+    const defaults = useContext(FormDefaults).autoSubmit
+    const options = {
+        ...defaults,
+        ...definedProps(input),
+        form: input.form,
+        on: {
+            ...defaults?.on,
+            ...input.on,
+        },
+    }
     /*
     
         const lastSubmitted = options.form.lastSubmitValue ?? options.form.initializedValue
@@ -97,10 +196,35 @@ export function useAutoSubmit<T>(options: AutoSubmitOptions<T>): AutoSubmitStatu
         ])
         const value = usePrevious(FormData.value)
     */
-    const lastSubmittedValue = options.form.lastSubmitValue ?? options.form.initializedValue
-    const active = options.disabled !== true && options.form.disabled !== true && options.form.canSubmit && !equals(options.form.value, lastSubmittedValue)
+    // A value that failed to submit is still unsaved.
+    const unsaved = options.form.isDirtySinceSubmitted || options.form.lastSubmitResult === false
+    const active = options.disabled !== true && options.form.disabled !== true && options.form.canSubmit && unsaved
     const [next, setNext] = useState<number>()
+    const [saving, setSaving] = useState(false)
+    const [count, setCount] = useState(0)
+    const [failures, setFailures] = useState(0)
+    const [lastError, setLastError] = useState<unknown>()
+    const [deferred, setDeferred] = useState(false)
+    const [awaiting, setAwaiting] = useState<number>()
     const cancel = useCallback(() => setNext(undefined), [])
+    const fail = (error: unknown) => {
+        setSaving(false)
+        setFailures(failures + 1)
+        setLastError(error)
+        const retry = options.retry
+        if (retry === undefined || failures >= (retry.attempts ?? 3)) {
+            return
+        }
+        setNext(Date.now() + Math.min((retry.delay ?? 1000) * (retry.factor ?? 2) ** failures, retry.maxDelay ?? 30000))
+    }
+    // A submission already in flight may not include the latest changes, so a save it holds up is retried after it finishes.
+    // A queued save only runs once the submission in flight is done, so it is settled by the submission after that one.
+    const start = () => {
+        const status = options.form.submit()
+        setSaving(status !== "dropped")
+        setDeferred(status === "dropped")
+        setAwaiting(status === "queued" ? options.form.submitCount + 2 : undefined)
+    }
     const trigger = (delay?: number | undefined) => {
         if (delay === undefined) {
             return
@@ -127,7 +251,7 @@ export function useAutoSubmit<T>(options: AutoSubmitOptions<T>): AutoSubmitStatu
             return
         }
         console.log("Auto submitting form...")
-        const timeout = setTimeout(options.form.submit, Math.max(next - Date.now(), 0))
+        const timeout = setTimeout(() => start(), Math.max(next - Date.now(), 0))
         return () => {
             clearTimeout(timeout)
         }
@@ -142,10 +266,113 @@ export function useAutoSubmit<T>(options: AutoSubmitOptions<T>): AutoSubmitStatu
         active
     ])
     useFormAction(options.form, "beforeSubmit", cancel)
+    const doFlush = (trigger?: AutoSubmitFlushTrigger | undefined) => {
+        if (next === undefined) {
+            return
+        }
+        cancel()
+        if (trigger !== undefined && options.beacon !== undefined) {
+            options.beacon(options.form.value)
+            return
+        }
+        if (trigger === "unmount") {
+            return
+        }
+        start()
+    }
+    const latestFlush = useRef(doFlush)
+    latestFlush.current = doFlush
+    const flush = useCallback(() => latestFlush.current(), [])
+    const flushOn = options.flushOn ?? {}
+    const flushOnUnmount = useRef(flushOn.unmount)
+    flushOnUnmount.current = flushOn.unmount
+    useEffect(() => {
+        return () => {
+            if (flushOnUnmount.current === true) {
+                latestFlush.current("unmount")
+            }
+        }
+    }, [])
+    useEffect(() => {
+        if (flushOn.hide !== true || typeof document === "undefined") {
+            return
+        }
+        const onVisibilityChange = () => {
+            if (document.visibilityState === "hidden") {
+                latestFlush.current("hide")
+            }
+        }
+        const onPageHide = () => latestFlush.current("hide")
+        document.addEventListener("visibilitychange", onVisibilityChange)
+        window.addEventListener("pagehide", onPageHide)
+        return () => {
+            document.removeEventListener("visibilitychange", onVisibilityChange)
+            window.removeEventListener("pagehide", onPageHide)
+        }
+    }, [
+        flushOn.hide
+    ])
+    useEffect(() => {
+        if (flushOn.unload !== true || typeof window === "undefined") {
+            return
+        }
+        const onBeforeUnload = () => latestFlush.current("unload")
+        window.addEventListener("beforeunload", onBeforeUnload)
+        return () => {
+            window.removeEventListener("beforeunload", onBeforeUnload)
+        }
+    }, [
+        flushOn.unload
+    ])
+    useFormAction(options.form, "afterSubmit", () => {
+        if (!saving) {
+            if (deferred) {
+                setDeferred(false)
+                if (active) {
+                    setNext(Date.now())
+                }
+            }
+            return
+        }
+        if (awaiting !== undefined) {
+            if (options.form.submitCount < awaiting) {
+                return
+            }
+            setAwaiting(undefined)
+        }
+        if (options.form.lastSubmitResult === false) {
+            fail(options.form.exception ?? options.form.errors)
+            return
+        }
+        setSaving(false)
+        setCount(count + 1)
+        setFailures(0)
+        setLastError(undefined)
+    })
+    const status = (() => {
+        if (saving) {
+            return "saving"
+        }
+        if (next !== undefined) {
+            return "scheduled"
+        }
+        if (failures > 0) {
+            return "error"
+        }
+        if (count > 0) {
+            return "saved"
+        }
+        return "idle"
+    })()
     return {
         active,
         next,
         pending: next !== undefined,
-        cancel
+        status,
+        count,
+        failures,
+        lastError,
+        cancel,
+        flush,
     }
 }
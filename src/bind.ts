@@ -0,0 +1,49 @@
+import { ChangeEvent } from "react"
+
+/**
+ * Props shared by all native input bindings.
+ */
+export interface FieldBinding {
+    readonly id: string
+    readonly name: string
+    readonly disabled: boolean | undefined
+    readonly onBlur: () => void
+    readonly onFocus: () => void
+    readonly "aria-invalid": boolean
+    readonly "aria-describedby": string | undefined
+}
+
+/**
+ * Props for a text input or textarea.
+ */
+export interface TextFieldBinding extends FieldBinding {
+    readonly value: string
+    readonly onChange: (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void
+}
+
+/**
+ * Props for a checkbox.
+ */
+export interface CheckboxFieldBinding extends FieldBinding {
+    readonly type: "checkbox"
+    readonly checked: boolean
+    readonly onChange: (event: ChangeEvent<HTMLInputElement>) => void
+}
+
+/**
+ * Props for one radio button of a group.
+ */
+export interface RadioFieldBinding extends FieldBinding {
+    readonly type: "radio"
+    readonly value: string
+    readonly checked: boolean
+    readonly onChange: (event: ChangeEvent<HTMLInputElement>) => void
+}
+
+/**
+ * Props for a select.
+ */
+export interface SelectFieldBinding extends FieldBinding {
+    readonly value: string
+    readonly onChange: (event: ChangeEvent<HTMLSelectElement>) => void
+}
@@ -4,6 +4,46 @@ import { FieldInput } from "./internal"
 
 export interface FieldControl<G, S = G> extends FieldInput<G, S> {
 
+    /**
+     * A key for this field, for use as a React key. Stable across inserts, removals and moves for the items of array fields.
+     */
+    readonly key: string
+
+    /**
+     * An id for this field's input element, derived from its path and unique within the document.
+     */
+    readonly id: string
+
+    /**
+     * An id for the element showing this field's error message. Bound inputs reference it through aria-describedby while the field has errors.
+     */
+    readonly errorId: string
+
+    /**
+     * Does this field's value differ from its initialized value?
+     */
+    readonly isDirty: boolean
+
+    /**
+     * Has this field, or any field within it, been touched?
+     */
+    readonly isTouched: boolean
+
+    /**
+     * Is this field, or any field within it, focused?
+     */
+    readonly isFocused: boolean
+
+    /**
+     * Has this field, or any field within it, been blurred?
+     */
+    readonly wasBlurred: boolean
+
+    /**
+     * Has this field, or any field within it, been committed?
+     */
+    readonly wasCommitted: boolean
+
     /**
      * Mark this field or form as blurred or focused.
      */
@@ -20,15 +60,45 @@ export interface FieldControl<G, S = G> extends FieldInput<G, S> {
     readonly selfErrors?: readonly FormError[] | undefined
 
     /**
-     * Does this field or form have errors?
+     * Does this field or form have errors? Warnings and info are not counted.
      */
     readonly hasErrors: boolean
 
     /**
-     * Does this field or form have errors?
+     * Does this field or form have errors of its own? Warnings and info are not counted.
      */
     readonly hasSelfErrors: boolean
 
+    /**
+     * A list of warnings associated with this field or form and its children.
+     */
+    readonly warnings: readonly FormError[]
+
+    /**
+     * Does this field or form have warnings?
+     */
+    readonly hasWarnings: boolean
+
+    /**
+     * A list of info messages associated with this field or form and its children.
+     */
+    readonly infos: readonly FormError[]
+
+    /**
+     * Does this field or form have info messages?
+     */
+    readonly hasInfos: boolean
+
+    /**
+     * Turn an error into a message, resolving its code through the nearest FormMessagesProvider.
+     */
+    formatError(error: FormError): string
+
+    /**
+     * This field or form's own errors as a single message, or undefined if there are none. Warnings and info are not included.
+     */
+    readonly errorMessage: string | undefined
+
     /**
      * Add an error to a form.
      */
@@ -0,0 +1,101 @@
+import { equals } from "ramda"
+import { FormErrorPath, formatJsonPointer } from "./errors"
+import { FormComparer } from "./options"
+import { diffPaths, lookupPath, replacePath } from "./util"
+
+/**
+ * A partial value as an RFC 7386 JSON Merge Patch: changed properties only, with removed properties set to null. Arrays are included whole.
+ */
+export type FormPartial<T> = T extends readonly unknown[] ? T : T extends object ? { readonly [K in keyof T]?: FormPartial<T[K]> | null } : T
+
+/**
+ * An RFC 6902 JSON Patch operation.
+ */
+export interface FormPatchOperation {
+
+    readonly op: "add" | "remove" | "replace"
+
+    /**
+     * The JSON Pointer of the changed value.
+     */
+    readonly path: string
+
+    /**
+     * The new value. Not set for removals.
+     */
+    readonly value?: unknown
+
+    /**
+     * The path of the changed value, matching the paths of form errors and fields.
+     */
+    readonly fieldPath: FormErrorPath
+
+}
+
+/**
+ * The changes between two values of a form.
+ * @typeParam T The form's value type.
+ */
+export interface FormDiff<T> {
+
+    /**
+     * The changes as a partial value.
+     */
+    readonly partial: FormPartial<T>
+
+    /**
+     * The changes as JSON Patch operations.
+     */
+    readonly operations: readonly FormPatchOperation[]
+
+}
+
+/**
+ * Look up a path, treating undefined properties as absent, as JSON leaves them out. Undefined array items become null, as in JSON.
+ */
+function lookup(value: unknown, path: FormErrorPath): { readonly found: boolean, readonly value?: unknown } {
+    const result = lookupPath(value, path)
+    if (!result.found || result.value !== undefined) {
+        return result
+    }
+    return Array.isArray(lookupPath(value, path.slice(0, -1)).value) ? { found: true, value: null } : { found: false }
+}
+
+/**
+ * Compute the changes between two values of a form.
+ * @typeParam T The form's value type.
+ * @param from The old value.
+ * @param to The new value.
+ * @param compare The comparer.
+ * @returns The changes.
+ */
+export function formDiff<T>(from: T, to: T, compare: FormComparer<unknown> = equals): FormDiff<T> {
+    const paths = diffPaths(from, to, compare).filter(path => lookup(from, path).found || lookup(to, path).found)
+    const changes = paths.map(path => {
+        const before = lookup(from, path)
+        const after = lookup(to, path)
+        const op = !after.found ? "remove" as const : before.found ? "replace" as const : "add" as const
+        return {
+            op,
+            path: formatJsonPointer(path),
+            fieldPath: path,
+            ...after.found ? { value: after.value } : {},
+        }
+    })
+    // Array items must be removed from the end, so that earlier removals don't shift the indexes of later ones.
+    const operations = [
+        ...changes.filter(change => change.op !== "remove"),
+        ...changes.filter(change => change.op === "remove").reverse(),
+    ]
+    const partial = paths.reduce<unknown>((partial, path) => {
+        // Arrays are included whole.
+        const array = path.findIndex((_, index) => Array.isArray(lookup(to, path.slice(0, index)).value))
+        const target = array === -1 ? path : path.slice(0, array)
+        const after = lookup(to, target)
+        return replacePath(partial, target, { found: true, value: after.found ? after.value : null })
+    }, {})
+    return {
+        partial: partial as FormPartial<T>,
+        operations,
+    }
+}
@@ -1,10 +1,99 @@
-import { equals } from "ramda"
-
 /**
  * The path of a form error.
  */
 export type FormErrorPath = readonly (string | number)[]
 
+/**
+ * Turn a path into a string, for use as a map key.
+ * @param path The path.
+ * @returns A string uniquely identifying the path.
+ */
+export function formPathKey(path: FormErrorPath) {
+    return JSON.stringify(path)
+}
+
+/**
+ * Turn a path into an RFC 6901 JSON Pointer.
+ * @param path The path.
+ * @returns The JSON Pointer.
+ */
+export function formatJsonPointer(path: FormErrorPath) {
+    return path.map(segment => "/" + String(segment).replace(/~/g, "~0").replace(/\//g, "~1")).join("")
+}
+
+/**
+ * Parse an RFC 6901 JSON Pointer, or a URI fragment containing one, into a path. Segments made up of digits become array indexes.
+ * @param pointer The JSON Pointer.
+ * @returns The path.
+ * @throws If the pointer is not empty and does not start with a slash.
+ */
+export function parseJsonPointer(pointer: string): FormErrorPath {
+    const stripped = pointer.startsWith("#") ? decodeURIComponent(pointer.substring(1)) : pointer
+    if (stripped === "") {
+        return []
+    }
+    if (!stripped.startsWith("/")) {
+        throw new Error("This is not a JSON Pointer: " + pointer)
+    }
+    return stripped.substring(1).split("/").map(segment => pathSegment(segment.replace(/~1/g, "/").replace(/~0/g, "~")))
+}
+
+/**
+ * Turn a path into a dotted path with bracketed indexes, such as `items[0].name`.
+ * @param path The path.
+ * @returns The dotted path.
+ */
+export function formatDottedPath(path: FormErrorPath) {
+    return path.map((segment, index) => {
+        if (typeof segment === "number") {
+            return "[" + segment + "]"
+        }
+        if (/^[A-Za-z_$][\w$]*$/.test(segment)) {
+            return (index === 0 ? "" : ".") + segment
+        }
+        return "[" + JSON.stringify(segment) + "]"
+    }).join("")
+}
+
+/**
+ * Parse a dotted path with bracketed indexes, such as `items[0].name` or `items.0.name`, into a path. Segments made up of digits become array indexes.
+ * @param dotted The dotted path.
+ * @returns The path.
+ */
+export function parseDottedPath(dotted: string): FormErrorPath {
+    const path: (string | number)[] = []
+    for (const match of dotted.matchAll(/\[("(?:[^"\\]|\\.)*"|'[^']*'|[^\]]*)\]|([^.[\]]+)/g)) {
+        const bracketed = match[1]
+        if (bracketed === undefined) {
+            path.push(pathSegment(match[2] ?? ""))
+        }
+        else if (bracketed.startsWith("\"")) {
+            path.push(JSON.parse(bracketed) as string)
+        }
+        else if (bracketed.startsWith("'")) {
+            path.push(bracketed.substring(1, bracketed.length - 1))
+        }
+        else {
+            path.push(pathSegment(bracketed))
+        }
+    }
+    return path
+}
+
+function pathSegment(segment: string) {
+    return /^(0|[1-9]\d*)$/.test(segment) ? parseInt(segment) : segment
+}
+
+/**
+ * Check whether two paths are the same.
+ * @param a The first path.
+ * @param b The second path.
+ * @returns True if the paths are the same.
+ */
+export function pathsEqual(a: FormErrorPath, b: FormErrorPath) {
+    return a.length === b.length && a.every((segment, index) => segment === b[index])
+}
+
 /**
  * A set of form errors.
  */
@@ -35,16 +124,31 @@ export function buildErrors(inputs: FormErrorInput): FormErrors {
     })
 }
 
+/**
+ * How serious a form error is. Only errors block submission; warnings and info are advisory.
+ */
+export type FormErrorSeverity = "error" | "warning" | "info"
+
 /**
  * Error object for a form field.
  */
 export interface FormError {
 
     /**
-     * The error message.
+     * The error message. Used when no message is provided for the error's code.
      */
     readonly message: string
 
+    /**
+     * A code identifying the kind of error, for resolving a localized message through a FormMessagesProvider.
+     */
+    readonly code?: string | undefined
+
+    /**
+     * Parameters for the localized message.
+     */
+    readonly params?: { readonly [key: string]: unknown } | undefined
+
     /**
      * A path for an error. Strings represent properties, numbers represent array indexes.
      */
@@ -55,22 +159,89 @@ export interface FormError {
      */
     readonly temporary?: boolean | undefined
 
+    /**
+     * How serious the error is. Warnings and info never block submission.
+     * @defaultValue `"error"`
+     */
+    readonly severity?: FormErrorSeverity | undefined
+
 }
 
-export function stringifyErrors(errors: FormErrors | undefined) {
+/**
+ * Build a filter for errors of a severity.
+ * @param severity The severity.
+ * @returns A filter function.
+ */
+export function errorOfSeverity(severity: FormErrorSeverity) {
+    return (error: FormError) => {
+        return (error.severity ?? "error") === severity
+    }
+}
+
+export function stringifyErrors(errors: FormErrors | undefined, format: (error: FormError) => string = _ => _.message) {
     if (errors === undefined) {
         return
     }
     if (errors.length === 0) {
         return
     }
-    return errors.map(_ => _.message).join(", ") + "."
+    return errors.map(format).join(", ") + "."
 }
 export function errorAt(path: FormErrorPath) {
     return (error: FormError) => {
-        return equals(path, error.path)
+        return pathsEqual(path, error.path ?? [])
+    }
+}
+export function pathWithin(path: FormErrorPath, parent: FormErrorPath) {
+    return pathsEqual(path.slice(0, parent.length), parent)
+}
+export function errorWithin(path: FormErrorPath) {
+    return (error: FormError) => {
+        return pathWithin(error.path ?? [], path)
     }
 }
 export function descendErrors(errors: FormErrors, path: FormErrorPath) {
-    return errors.filter(_ => equals((_.path ?? []).slice(0, path.length), path ?? [])).map(error => ({ ...error, path: (error.path ?? []).slice(path.length) }))
+    return errors.filter(errorWithin(path)).map(error => ({ ...error, path: (error.path ?? []).slice(path.length) }))
+}
+
+/**
+ * Move the errors of an array's items to new indexes.
+ * @param errors The errors, relative to the array.
+ * @param reindex Maps an item's old index to its new index, or to undefined if the item was removed.
+ * @returns The reindexed errors.
+ */
+export function reindexErrors(errors: FormErrors, reindex: (index: number) => number | undefined): FormErrors {
+    return errors.flatMap(error => {
+        const [head, ...tail] = error.path ?? []
+        if (typeof head !== "number") {
+            return [error]
+        }
+        const index = reindex(head)
+        if (index === undefined) {
+            return []
+        }
+        return [{
+            ...error,
+            path: [index, ...tail],
+        }]
+    })
+}
+
+/**
+ * Move a path along with the item of an array it is within.
+ * @param path The path.
+ * @param parent The array's path.
+ * @param reindex Maps old indexes to new ones, or to undefined if the item was removed.
+ * @returns The new path, or undefined if the item was removed. Paths outside of the array's items are unchanged.
+ */
+export function reindexPath(path: FormErrorPath, parent: FormErrorPath, reindex: (index: number) => number | undefined): FormErrorPath | undefined {
+    const head = path[parent.length]
+    if (typeof head !== "number" || !pathWithin(path, parent)) {
+        return path
+    }
+    const index = reindex(head)
+    if (index === undefined) {
+        return
+    }
+    return [...parent, index, ...path.slice(parent.length + 1)]
 }
@@ -1,9 +1,13 @@
 
 import { Lens, defaultTo, identity, isNotNil, lens, lensIndex, lensProp, pick, set, view } from "ramda"
 import { ValueOrFactory, callOrGet } from "value-or-factory"
+import { CheckboxFieldBinding, FieldBinding, RadioFieldBinding, SelectFieldBinding, TextFieldBinding } from "./bind"
 import { FieldControl } from "./control"
-import { FormErrorInput, FormErrors, buildErrors, descendErrors } from "./errors"
-import { FieldInput } from "./internal"
+import { FormErrorInput, FormErrorPath, FormErrors, buildErrors, descendErrors, errorOfSeverity, errorWithin, formPathKey, formatDottedPath, pathWithin, reindexErrors, stringifyErrors } from "./errors"
+import { FieldInput, FieldRoot } from "./internal"
+import { FormComparer, FormValidator } from "./options"
+import { FormPathDates } from "./state"
+import { parsePathKeys } from "./util"
 
 export interface FormField<T> extends FieldControl<T> {
 
@@ -12,6 +16,11 @@ export interface FormField<T> extends FieldControl<T> {
      */
     pipe<R>(operator: FormField.OperatorWithPath<T, R> | FormField.Operator<T, R>): FormField<R>
 
+    /**
+     * Create a text field that coerces typed text into this field's value. Text that does not parse is kept as typed, without changing the value, and an error is attached to this field until it is corrected.
+     */
+    pipe(operator: FormField.Coercion<T>): FormField<string>
+
     /**
      * Create a field from a prop of this field.
      */
@@ -22,7 +31,11 @@ export interface FormField<T> extends FieldControl<T> {
      */
     props<K extends (keyof T)>(key: readonly K[]): FormField<Pick<T, K>>
 
-    transform<R>(to: (value: T) => R, back: (value: R) => T): FormField<R>
+    /**
+     * Create a field that works off of this field with a two-way mapped value.
+     * @param compare Compares values of the new field. Defaults to the form's comparer.
+     */
+    transform<R>(to: (value: T) => R, back: (value: R) => T, compare?: FormComparer<R> | undefined): FormField<R>
 
     /**
      * Narrow down the type of the field.
@@ -34,13 +47,86 @@ export interface FormField<T> extends FieldControl<T> {
      */
     or(value: NonNullable<T>): FormField<NonNullable<T>>
 
+    /**
+     * Register a validator for this field, which runs alongside the form's validator. The paths of its errors are relative to this field.
+     * @returns A function that unregisters the validator.
+     */
+    addValidator(validator: FormValidator<T>): () => void
+
+    /**
+     * Create a field from an item of this array field. Its value is undefined if the index is out of range.
+     */
+    at(index: number): FormField<FormField.Item<T> | undefined>
+
+    /**
+     * Create a field for every item of this array field.
+     */
+    items(): readonly FormField<FormField.Item<T>>[]
+
+    /**
+     * Append items to this array field.
+     */
+    push(...items: FormField.Item<T>[]): void
+
+    /**
+     * Insert items into this array field at an index. Does nothing if the index is out of range.
+     */
+    insert(index: number, ...items: FormField.Item<T>[]): void
+
+    /**
+     * Remove an item from this array field, along with its errors. Does nothing if the index is out of range.
+     */
+    remove(index: number): void
+
+    /**
+     * Move an item of this array field to another index. Does nothing if either index is out of range.
+     */
+    move(from: number, to: number): void
+
+    /**
+     * Swap two items of this array field. Does nothing if either index is out of range.
+     */
+    swap(a: number, b: number): void
+
+    /**
+     * Replace all items of this array field. Errors of the previous items are dropped.
+     */
+    replace(items: readonly FormField.Item<T>[]): void
+
+    /**
+     * Props for binding this field to a text input or textarea.
+     */
+    bindText(this: FormField<string>): TextFieldBinding
+
+    /**
+     * Props for binding this field to a checkbox.
+     */
+    bindCheckbox(this: FormField<boolean>): CheckboxFieldBinding
+
+    /**
+     * Props for binding one option of this field to a radio button. Radio buttons for the same field share a name.
+     * @param option The option.
+     * @param value The radio button's value attribute, which also distinguishes its id. Defaults to the option as a string.
+     */
+    bindRadio(option: T, value?: string | undefined): RadioFieldBinding
+
+    /**
+     * Props for binding this field to a select.
+     */
+    bindSelect(this: FormField<string>): SelectFieldBinding
+
 }
 
 export class FormFieldImpl<T> implements FormField<T> {
 
+    readonly key
+    readonly id
+    readonly errorId
     readonly path
     readonly disabled
     readonly value
+    readonly initializedValue
+    declare readonly isDirty: boolean
     readonly setValue
     readonly setValueAndCommit
     readonly blur
@@ -48,27 +134,65 @@ export class FormFieldImpl<T> implements FormField<T> {
     readonly touch
     readonly focus
     readonly toggle
+    readonly isTouched
+    readonly isFocused
+    readonly wasBlurred
+    readonly wasCommitted
     readonly errors
     readonly selfErrors
     readonly hasErrors
     readonly hasSelfErrors
+    readonly warnings
+    readonly hasWarnings
+    readonly infos
+    readonly hasInfos
+    readonly formatError
+    readonly errorMessage
     readonly setErrors
-    readonly pipe
+    readonly pipe: FormField<T>["pipe"]
     readonly prop
     readonly transform
     readonly narrow
     readonly or
     readonly props
+    readonly addValidator
+    readonly at
+    readonly items
+    readonly push
+    readonly insert
+    readonly remove
+    readonly move
+    readonly swap
+    readonly replace
+    readonly bindText
+    readonly bindCheckbox
+    readonly bindRadio
+    readonly bindSelect
 
-    static from<T>(input: FieldInput<T>) {
-        return new FormFieldImpl(input)
+    static from<T>(input: FieldInput<T>, root: FieldRoot, compare?: FormComparer<T> | undefined, read?: ((value: unknown) => T) | undefined) {
+        return new FormFieldImpl(input, root, compare ?? root.compare, read ?? (value => value as T))
     }
 
-    private constructor(readonly from: FieldInput<T, T>) {
+    private constructor(readonly from: FieldInput<T, T>, private readonly root: FieldRoot, compare: FormComparer<T>, private readonly read: (value: unknown) => T) {
+        this.key = from.key ?? formPathKey(from.path)
         this.path = from.path
+        // Separators are characters that encodeURIComponent escapes, so different paths never share an id.
+        this.id = root.id + from.path.map(segment => ":" + encodeURIComponent(segment)).join("")
+        this.errorId = this.id + "/error"
         this.disabled = from.disabled
         this.value = from.value
-        this.setValue = from.setValue
+        this.initializedValue = from.initializedValue
+        // Comparing can be costly for large values, so it is only done when asked for. It is an own property, so that copies of the field keep it.
+        let dirty: boolean | undefined
+        Object.defineProperty(this, "isDirty", {
+            enumerable: true,
+            get: () => dirty ??= !compare(from.value, from.initializedValue),
+        })
+        // Replacing the value outside of the array operations leaves nothing for stored item keys to track, unless the arrays keep their lengths.
+        this.setValue = (value: ValueOrFactory<T, [T]>, suppressTouch?: boolean | undefined) => {
+            from.setValue(value, suppressTouch)
+            root.dropItemKeys(from.path)
+        }
         this.blur = () => from.blur?.()
         this.commit = () => from.commit?.()
         this.focus = () => from.focus?.()
@@ -81,14 +205,24 @@ export class FormFieldImpl<T> implements FormField<T> {
                 from.blur?.()
             }
         }
+        this.isTouched = anyWithin(root.touchedPaths, from.path)
+        this.isFocused = root.focusedPath !== undefined && pathWithin(root.focusedPath, from.path)
+        this.wasBlurred = anyWithin(root.blurredPaths, from.path)
+        this.wasCommitted = anyWithin(root.committedPaths, from.path)
         this.setValueAndCommit = (value: T, suppressTouch?: boolean | undefined) => {
-            from.setValue(value, suppressTouch)
+            this.setValue(value, suppressTouch)
             from.commit?.()
         }
         this.errors = from.errors
         this.selfErrors = from.errors?.filter(_ => (_.path ?? []).length === 0)
-        this.hasErrors = (from.errors?.length ?? 0) > 0
-        this.hasSelfErrors = (this.selfErrors?.length ?? 0) > 0
+        this.hasErrors = (from.errors ?? []).some(errorOfSeverity("error"))
+        this.hasSelfErrors = (this.selfErrors ?? []).some(errorOfSeverity("error"))
+        this.warnings = (from.errors ?? []).filter(errorOfSeverity("warning"))
+        this.hasWarnings = this.warnings.length > 0
+        this.infos = (from.errors ?? []).filter(errorOfSeverity("info"))
+        this.hasInfos = this.infos.length > 0
+        this.formatError = root.format
+        this.errorMessage = stringifyErrors(from.errors?.filter(_ => (_.path ?? []).length === 0 && errorOfSeverity("error")(_)), root.format)
         this.setErrors = from.setErrors
         this.attachErrors = (inputErrors: FormErrorInput) => {
             this.setErrors(errors => {
@@ -98,31 +232,113 @@ export class FormFieldImpl<T> implements FormField<T> {
                 ]
             })
         }
-        this.pipe = this.doPipe.bind(this)
+        this.pipe = (<N>(operator: FormField.Coercion<T> | FormField.OperatorWithPath<T, N> | FormField.Operator<T, N>) => {
+            if (typeof operator !== "function" && "parse" in operator) {
+                return this.doCoerce(operator)
+            }
+            return this.doPipe(operator)
+        }) as FormField<T>["pipe"]
         this.prop = this.doProp.bind(this)
         this.transform = this.doTransform.bind(this)
         this.narrow = this.doNarrow.bind(this)
         this.or = this.doOr.bind(this)
         this.props = this.doProps.bind(this)
+        this.addValidator = (validator: FormValidator<T>) => {
+            return root.addValidator(async (value, context) => {
+                const errors = buildErrors(await validator(read(value), context))
+                return errors.map(error => {
+                    return {
+                        ...error,
+                        path: [...this.path, ...error.path ?? []]
+                    }
+                })
+            })
+        }
+        this.at = this.doAt.bind(this)
+        this.items = this.doItems.bind(this)
+        this.push = (...items: FormField.Item<T>[]) => {
+            this.doSplice((array, added) => [...array, ...added], items, index => index)
+        }
+        this.insert = (index: number, ...items: FormField.Item<T>[]) => {
+            if (index < 0 || index > arrayOf(this.value).length) {
+                return
+            }
+            this.doSplice((array, added) => [...array.slice(0, index), ...added, ...array.slice(index)], items, i => i >= index ? i + items.length : i)
+        }
+        this.remove = (index: number) => {
+            if (index < 0 || index >= arrayOf(this.value).length) {
+                return
+            }
+            this.doSplice(array => array.filter((_, i) => i !== index), [], i => i === index ? undefined : i > index ? i - 1 : i)
+        }
+        this.move = (from: number, to: number) => {
+            const length = arrayOf(this.value).length
+            if (from < 0 || to < 0 || from >= length || to >= length) {
+                return
+            }
+            this.doSplice(array => {
+                const moved = array.filter((_, i) => i !== from)
+                return [...moved.slice(0, to), ...array.slice(from, from + 1), ...moved.slice(to)]
+            }, [], i => {
+                if (i === from) {
+                    return to
+                }
+                if (from < to && i > from && i <= to) {
+                    return i - 1
+                }
+                if (from > to && i >= to && i < from) {
+                    return i + 1
+                }
+                return i
+            })
+        }
+        this.swap = (a: number, b: number) => {
+            const length = arrayOf(this.value).length
+            if (a < 0 || b < 0 || a >= length || b >= length) {
+                return
+            }
+            this.doSplice(<I>(array: readonly I[]) => {
+                const next = [...array]
+                next[a] = array[b] as I
+                next[b] = array[a] as I
+                return next
+            }, [], i => i === a ? b : i === b ? a : i)
+        }
+        this.replace = (items: readonly FormField.Item<T>[]) => {
+            this.doSplice((_, added) => added, items, () => undefined)
+        }
+        this.bindText = bindText
+        this.bindCheckbox = bindCheckbox
+        this.bindRadio = (option: T, value = String(option)) => bindRadio(this, option, value, compare(from.value, option))
+        this.bindSelect = bindSelect
     }
     attachErrors: (errors: FormErrorInput) => void
 
-    /*
-    index(index: number): FormField<IndexOf<T>> {
-        throw new Error("Method not implemented.")
+    private currentItemKeys(length: number) {
+        return resolveItemKeys(this.root.itemKeys[formPathKey(this.path)] ?? [], length)
+    }
+    private doAt(index: number) {
+        return this.doIndex<FormField.Item<T> | undefined>(index)
+    }
+    private doItems() {
+        // Every index is in range, so these items are never missing.
+        return arrayOf(this.value).map((_, index) => this.doIndex<FormField.Item<T>>(index))
+    }
+    private doIndex<N>(index: number) {
+        const operator = FormField.at(index) as FormField.OperatorWithPath<unknown, unknown> as FormField.OperatorWithPath<T, N>
+        return this.doPipe(operator, this.currentItemKeys(Math.max(arrayOf(this.value).length, index + 1))[index])
+    }
+    private doSplice(update: <I>(array: readonly I[], added: readonly I[]) => readonly I[], items: readonly unknown[], reindex: (index: number) => number | undefined) {
+        const length = arrayOf(this.value).length
+        const addedKeys = items.map(() => `#${nextItemKey++}`)
+        this.from.setValue(prev => update(arrayOf(prev), items) as T)
+        this.setErrors(errors => reindexErrors(errors, reindex))
+        this.root.setItemKeys(this.path, keys => update(resolveItemKeys(keys, Math.max(keys.length, length)), addedKeys))
+        this.root.reindexPaths(this.path, reindex)
     }
 
-    private doIndex<N>(index: N) {
-        if (Array.isArray(this.value)) {
-            return this.doPipe(FormField.index<T, N>(index))
-        }
-        else {
-            throw new Error("This is not an array field.")
-        }
-    }*/
-
-    private doTransform<N>(to: (value: T) => N, back: (value: N) => T) {
-        return this.doPipe(FormField.transform(to, back))
+    private doTransform<N>(to: (value: T) => N, back: (value: N) => T, compare?: FormComparer<N> | undefined) {
+        return this.doPipe({ operator: FormField.transform(to, back), compare })
     }
     private doOr(defaultValue: NonNullable<T>) {
         return this.doNarrow(value => value ?? defaultValue)
@@ -130,59 +346,308 @@ export class FormFieldImpl<T> implements FormField<T> {
     private doNarrow<N extends T>(to: (value: T) => N) {
         return this.doPipe(FormField.narrow(to))
     }
-    /*
-    private doAt<K extends IndexOf<T>>(key: K) {
-        return this.doPipe(FormField.at(key))
-    }
-    */
     private doProp<K extends string & (keyof T)>(key: K) {
         return this.doPipe(FormField.prop(key))
     }
     private doProps<K extends (keyof T)>(keys: readonly K[]) {
         return this.doPipe(FormField.props(keys))
     }
-    private doPipe<N>(operator: FormField.OperatorWithPath<T, N> | FormField.Operator<T, N>): FormField<N> {
+    private doCoerce(coercion: FormField.Coercion<T>) {
+        const buffer = this.root.textBuffers[formPathKey(this.path)]
+        const text = buffer?.text ?? coercion.format(this.value)
+        const setValue = (value: ValueOrFactory<string, [string]>, suppressTouch?: boolean | undefined) => {
+            const newText = callOrGet(value, text)
+            const parsed = coercion.parse(newText)
+            if (parsed === undefined) {
+                this.root.setTextBuffer(this.path, newText, {
+                    message: coercion.message ?? "Invalid value.",
+                    code: coercion.code ?? "format",
+                    params: { text: newText },
+                    path: this.path,
+                })
+                if (suppressTouch !== true) {
+                    this.root.touch(this.path)
+                }
+                return
+            }
+            this.from.setValue(parsed.value, suppressTouch)
+            this.root.setTextBuffer(this.path, coercion.reformat === "change" || coercion.format(parsed.value) === newText ? undefined : newText)
+        }
+        // Parseable text is shown as typed until the input is blurred, then reformatted.
+        const blur = () => {
+            if (buffer !== undefined && buffer.error === undefined) {
+                this.root.setTextBuffer(this.path, undefined)
+            }
+            this.blur()
+        }
+        return FormFieldImpl.from<string>({
+            key: this.key,
+            path: this.path,
+            value: text,
+            initializedValue: coercion.format(this.initializedValue),
+            setValue,
+            blur,
+            commit: this.commit,
+            focus: this.focus,
+            touch: this.touch,
+            disabled: this.disabled,
+            errors: this.errors,
+            setErrors: this.setErrors,
+        }, this.root, undefined, value => coercion.format(this.read(value)))
+    }
+    private doPipe<N>(operator: FormField.OperatorWithPath<T, N> | FormField.Operator<T, N>, key?: string | undefined): FormField<N> {
         if (typeof operator === "function") {
-            return this.doPipe({ operator })
+            return this.doPipe({ operator }, key)
         }
+        const path = [...this.path, ...[operator.path].flat().filter(isNotNil)]
         const newValue = view(operator.operator, this.value)
         const newSetValue = (newValue: ValueOrFactory<N, [N]>, suppressTouch?: boolean | undefined) => {
-            this.setValue(prev => {
+            this.from.setValue(prev => {
                 const newPrev = view(operator.operator, prev)
                 return set(operator.operator, callOrGet(newValue, newPrev), prev)
-            }, suppressTouch)
+            }, true)
+            if (suppressTouch !== true) {
+                this.root.touch(path)
+            }
         }
         const errors = descendErrors(this.errors ?? [], operator.path ?? [])
         const setErrors = (errors: ValueOrFactory<FormErrorInput, [FormErrors]>) => {
             this.setErrors(prevErrors => {
                 const newErrors = buildErrors(callOrGet(errors, descendErrors(prevErrors, operator.path ?? [])))
-                return newErrors.map(error => {
-                    return {
-                        ...error,
-                        path: [...operator.path ?? [], ...error.path ?? []]
-                    }
-                })
+                return [
+                    ...prevErrors.filter(error => !errorWithin(operator.path ?? [])(error)),
+                    ...newErrors.map(error => {
+                        return {
+                            ...error,
+                            path: [...operator.path ?? [], ...error.path ?? []]
+                        }
+                    })
+                ]
             })
         }
-        const path = [...this.path, ...[operator.path].flat().filter(isNotNil)]
         return FormFieldImpl.from({
+            key,
             path,
             value: newValue,
+            initializedValue: view(operator.operator, this.initializedValue),
             setValue: newSetValue,
-            blur: this.blur,
-            commit: this.commit,
-            focus: this.focus,
-            touch: this.touch,
+            blur: () => this.root.blur(path),
+            commit: () => this.root.commit(path),
+            focus: () => this.root.focus(path),
+            touch: () => this.root.touch(path),
             disabled: this.disabled,
             errors,
             setErrors,
-        })
+        }, this.root, operator.compare, value => view(operator.operator, this.read(value)))
     }
 
 }
 
 const undefinedIndex: <A extends readonly unknown[]>(n: number) => Lens<A, A[number] | undefined> = lensIndex
 
+let nextItemKey = 0
+
+function anyWithin(dates: FormPathDates, path: FormErrorPath) {
+    return parsePathKeys(dates).some(key => pathWithin(key, path))
+}
+
+/**
+ * Fill in keys for array items that have none stored, i.e. items that were not added through an array operation.
+ * These are derived from the index, so they stay the same across renders.
+ */
+function resolveItemKeys(keys: readonly string[], length: number) {
+    const used = new Set(keys)
+    return Array.from({ length }, (_, index) => {
+        const stored = keys[index]
+        if (stored !== undefined) {
+            return stored
+        }
+        let key = String(index)
+        while (used.has(key)) {
+            key += "'"
+        }
+        used.add(key)
+        return key
+    })
+}
+
+function bindField<T>(field: FormField<T>, id = field.id): FieldBinding {
+    return {
+        id,
+        name: formatDottedPath(field.path),
+        disabled: field.disabled,
+        onBlur: field.blur,
+        onFocus: field.focus,
+        "aria-invalid": field.hasSelfErrors,
+        "aria-describedby": field.hasSelfErrors ? field.errorId : undefined,
+    }
+}
+
+function bindText(this: FormField<string>): TextFieldBinding {
+    return {
+        ...bindField(this),
+        value: this.value,
+        onChange: event => this.setValue(event.target.value),
+    }
+}
+
+function bindCheckbox(this: FormField<boolean>): CheckboxFieldBinding {
+    return {
+        ...bindField(this),
+        type: "checkbox",
+        checked: this.value,
+        onChange: event => this.setValueAndCommit(event.target.checked),
+    }
+}
+
+function bindRadio<T>(field: FormField<T>, option: T, value: string, checked: boolean): RadioFieldBinding {
+    return {
+        ...bindField(field, field.id + "=" + encodeURIComponent(value)),
+        type: "radio",
+        value,
+        checked,
+        onChange: event => {
+            if (event.target.checked) {
+                field.setValueAndCommit(option)
+            }
+        },
+    }
+}
+
+function bindSelect(this: FormField<string>): SelectFieldBinding {
+    return {
+        ...bindField(this),
+        value: this.value,
+        onChange: event => this.setValueAndCommit(event.target.value),
+    }
+}
+
+function numberCoercion<E>(options: FormField.CoercionOptions<E>, check: (value: number) => boolean, code: string, message: string): FormField.Coercion<number | E> {
+    return {
+        format: value => typeof value === "number" ? String(value) : "",
+        parse: text => {
+            const trimmed = text.trim()
+            if (trimmed === "") {
+                return { value: options.empty as E }
+            }
+            // Only plain decimals, so that hexadecimal, binary and the like are not accepted.
+            if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(trimmed)) {
+                return
+            }
+            const value = Number(trimmed)
+            return check(value) ? { value } : undefined
+        },
+        message: options.message ?? message,
+        code,
+    }
+}
+
+function dateCoercion<E>(options: FormField.CoercionOptions<E>, withTime: boolean, code: string, message: string): FormField.Coercion<Date | E> {
+    const pad = (value: number, length = 2) => String(value).padStart(length, "0")
+    return {
+        format: value => {
+            if (!(value instanceof Date) || isNaN(value.getTime())) {
+                return ""
+            }
+            const date = `${pad(value.getFullYear(), 4)}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+            if (!withTime) {
+                return date
+            }
+            const seconds = value.getSeconds() === 0 && value.getMilliseconds() === 0 ? "" : `:${pad(value.getSeconds())}` + (value.getMilliseconds() === 0 ? "" : `.${pad(value.getMilliseconds(), 3)}`)
+            return `${date}T${pad(value.getHours())}:${pad(value.getMinutes())}${seconds}`
+        },
+        parse: text => {
+            if (text.trim() === "") {
+                return { value: options.empty as E }
+            }
+            const match = (withTime ? /^(\d{4,})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/ : /^(\d{4,})-(\d{2})-(\d{2})$/).exec(text.trim())
+            if (match === null) {
+                return
+            }
+            const [year = 0, month = 1, day = 1, hours = 0, minutes = 0, seconds = 0] = match.slice(1, 7).map(part => part === undefined ? 0 : parseInt(part))
+            const milliseconds = parseInt((match[7] ?? "0").padEnd(3, "0"))
+            const value = new Date(0)
+            value.setFullYear(year, month - 1, day)
+            value.setHours(hours, minutes, seconds, milliseconds)
+            // Reject dates that rolled over, such as February 30th.
+            if (value.getMonth() !== month - 1 || value.getDate() !== day || value.getHours() !== hours || value.getMinutes() !== minutes || value.getSeconds() !== seconds) {
+                return
+            }
+            return { value }
+        },
+        message: options.message ?? message,
+        code,
+    }
+}
+
+const MASK_TOKENS: { readonly [char: string]: RegExp } = {
+    "9": /\d/,
+    "a": /[A-Za-z]/,
+    "*": /[A-Za-z\d]/,
+}
+
+/**
+ * Fill a mask pattern's tokens with raw characters, inserting the other characters of the pattern up to the last filled token.
+ */
+function formatMask(pattern: string, tokens: { readonly [char: string]: RegExp }, raw: string) {
+    let text = ""
+    let pending = ""
+    let index = 0
+    for (const char of pattern) {
+        const token = tokens[char]
+        if (token === undefined) {
+            pending += char
+            continue
+        }
+        while (index < raw.length && !token.test(raw[index] ?? "")) {
+            index++
+        }
+        if (index >= raw.length) {
+            break
+        }
+        text += pending + raw[index]
+        pending = ""
+        index++
+    }
+    return text
+}
+
+/**
+ * Extract the characters typed into a mask pattern's tokens, skipping the pattern's other characters and anything that does not fit.
+ */
+function parseMask(pattern: string, tokens: { readonly [char: string]: RegExp }, text: string) {
+    let raw = ""
+    let index = 0
+    for (const char of pattern) {
+        const token = tokens[char]
+        if (token === undefined) {
+            if (text[index] === char) {
+                index++
+            }
+            continue
+        }
+        while (index < text.length && !token.test(text[index] ?? "")) {
+            index++
+        }
+        if (index >= text.length) {
+            break
+        }
+        raw += text[index]
+        index++
+    }
+    return raw
+}
+
+function arrayOf(value: unknown): readonly unknown[] {
+    if (value === undefined || value === null) {
+        return []
+    }
+    if (Array.isArray(value)) {
+        return value
+    }
+    throw new Error("This is not an array field.")
+}
+
 export namespace FormField {
 
     export function prop<T, K extends (keyof T) & string>(key: K): OperatorWithPath<T, T[K]> {
@@ -216,11 +681,197 @@ export namespace FormField {
 
     export type Operator<I, O> = Lens<I, O>
 
+    /**
+     * Converts between a field's value and text typed into an input.
+     */
+    export interface Coercion<T> {
+
+        /**
+         * Format a value for display.
+         */
+        readonly format: (value: T) => string
+
+        /**
+         * Parse typed text into a normalized value. Returns undefined if the text cannot be parsed.
+         */
+        readonly parse: (text: string) => { readonly value: T } | undefined
+
+        /**
+         * The message for unparseable text.
+         * @defaultValue `"Invalid value."`
+         */
+        readonly message?: string | undefined
+
+        /**
+         * The code for unparseable text. The text is passed as the text param.
+         * @defaultValue `"format"`
+         */
+        readonly code?: string | undefined
+
+        /**
+         * When to replace parseable text with its formatted value: as soon as it changes, or when the input is blurred.
+         * @defaultValue `"blur"`
+         */
+        readonly reformat?: "change" | "blur" | undefined
+
+    }
+
+    export interface CoercionOptions<E> {
+
+        /**
+         * The value for empty text.
+         * @defaultValue `undefined`
+         */
+        readonly empty?: E
+
+        /**
+         * The message for unparseable text.
+         */
+        readonly message?: string | undefined
+
+    }
+
+    export function asNumber<E = undefined>(options: CoercionOptions<E> = {}): Coercion<number | E> {
+        return numberCoercion(options, Number.isFinite, "number", "Must be a number.")
+    }
+    export function asInteger<E = undefined>(options: CoercionOptions<E> = {}): Coercion<number | E> {
+        return numberCoercion(options, Number.isInteger, "integer", "Must be a whole number.")
+    }
+
+    /**
+     * Coerce dates to and from the text of a date input, in local time.
+     */
+    export function asDate<E = undefined>(options: CoercionOptions<E> = {}): Coercion<Date | E> {
+        return dateCoercion(options, false, "date", "Must be a valid date.")
+    }
+
+    /**
+     * Coerce dates to and from the text of a datetime-local input, in local time.
+     */
+    export function asDateTimeLocal<E = undefined>(options: CoercionOptions<E> = {}): Coercion<Date | E> {
+        return dateCoercion(options, true, "dateTime", "Must be a valid date and time.")
+    }
+
+    /**
+     * Coerce booleans to and from "true" and "false", for selects and radio buttons.
+     */
+    export function asBoolean<E = undefined>(options: CoercionOptions<E> = {}): Coercion<boolean | E> {
+        return {
+            format: value => typeof value === "boolean" ? String(value) : "",
+            parse: text => {
+                if (text === "") {
+                    return { value: options.empty as E }
+                }
+                if (text === "true" || text === "false") {
+                    return { value: text === "true" }
+                }
+                return
+            },
+            message: options.message ?? "Must be true or false.",
+            code: "boolean",
+        }
+    }
+
+    export interface MaskOptions {
+
+        /**
+         * Characters of the pattern that accept input, with the input they accept. Other characters are inserted as typed.
+         * @defaultValue `9` for a digit, `a` for a letter and `*` for either.
+         */
+        readonly tokens?: { readonly [char: string]: RegExp } | undefined
+
+        /**
+         * Uppercase letters as they are typed.
+         */
+        readonly uppercase?: boolean | undefined
+
+    }
+
+    /**
+     * Mask typed text with a pattern such as `(999) 999-9999`. The value is the text without the pattern's other characters, such as `5551234567`, and may be incomplete.
+     */
+    export function mask(pattern: string, options: MaskOptions = {}): Coercion<string> {
+        const tokens = options.tokens ?? MASK_TOKENS
+        const normalize = (text: string) => options.uppercase === true ? text.toUpperCase() : text
+        return {
+            format: value => formatMask(pattern, tokens, normalize(value)),
+            parse: text => ({ value: parseMask(pattern, tokens, normalize(text)) }),
+            reformat: "change",
+        }
+    }
+
+    export interface CurrencyOptions<E> extends CoercionOptions<E> {
+
+        /**
+         * The ISO 4217 currency code, such as `USD`.
+         */
+        readonly currency: string
+
+        /**
+         * The locale to format and parse in. Defaults to the user's locale.
+         */
+        readonly locale?: string | undefined
+
+    }
+
+    /**
+     * Coerce amounts to and from locale-formatted currency, such as `$1,234.50`. Amounts are rounded to the currency's minor unit.
+     */
+    export function asCurrency<E = undefined>(options: CurrencyOptions<E>): Coercion<number | E> {
+        const format = new Intl.NumberFormat(options.locale, { style: "currency", currency: options.currency })
+        const decimal = format.formatToParts(1.5).find(part => part.type === "decimal")?.value ?? "."
+        const digits = format.resolvedOptions().maximumFractionDigits ?? 2
+        return {
+            format: value => typeof value === "number" ? format.format(value) : "",
+            parse: text => {
+                const trimmed = text.trim()
+                if (trimmed === "") {
+                    return { value: options.empty as E }
+                }
+                const negative = /^[(\-\u2212]|[)\-\u2212]$/.test(trimmed.replace(/[^\d()\-\u2212]/g, ""))
+                const normalized = trimmed.split(decimal).map(part => part.replace(/\D/g, ""))
+                if (normalized.length > 2 || normalized.every(part => part === "")) {
+                    return
+                }
+                const amount = Number(normalized.join("."))
+                if (!Number.isFinite(amount)) {
+                    return
+                }
+                const rounded = Math.round(amount * 10 ** digits) / 10 ** digits
+                return { value: negative ? -rounded : rounded }
+            },
+            message: options.message ?? "Must be an amount.",
+            code: "currency",
+        }
+    }
+
+    /**
+     * Coerce empty text to null.
+     */
+    export function asNullableString(): Coercion<string | null> {
+        return {
+            format: value => value ?? "",
+            parse: text => ({ value: text === "" ? null : text }),
+            message: "Must be text.",
+            code: "string",
+        }
+    }
+
+    /**
+     * The item type of an array field.
+     */
+    export type Item<T> = T extends readonly (infer I)[] ? I : never
+
     export interface OperatorWithPath<I, O> {
 
         readonly operator: Operator<I, O>
         readonly path?: readonly (string | number)[] | undefined
 
+        /**
+         * Compares values of the new field. Defaults to the form's comparer.
+         */
+        readonly compare?: FormComparer<O> | undefined
+
     }
 
 }
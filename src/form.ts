@@ -1,12 +1,16 @@
-import { isNotNil } from "ramda"
-import { FormEvent, SetStateAction, useCallback, useEffect, useMemo } from "react"
+import { equals, isNotNil } from "ramda"
+import { FormEvent, SetStateAction, useCallback, useEffect, useId, useMemo, useRef } from "react"
 import { ValueOrFactory, callOrGet } from "value-or-factory"
-import { FormErrorInput, FormErrors, buildErrors } from "./errors"
+import { formDiff } from "./diff"
+import { FormErrorInput, FormErrorPath, FormErrors, buildErrors, errorOfSeverity, formPathKey, pathWithin, pathsEqual, reindexPath } from "./errors"
 import { FormField, FormFieldImpl } from "./field"
 import { FORM_HOOK_KEYS, useFormAction } from "./hooks"
-import { FormOptions } from "./options"
-import { FormState, initialFormState, useFormState } from "./state"
-import { useDeepCompareConstant, useIsFirstMount } from "./util"
+import { FieldRoot } from "./internal"
+import { mergeValues } from "./merge"
+import { useFormMessages } from "./messages"
+import { FormComparer, FormOptions, FormSubmitStatus, FormValidateDelay, FormValidateTrigger, FormValidator, useFormOptions } from "./options"
+import { FormInternalState, FormState, initialFormState, useFormState } from "./state"
+import { diffPaths, lookupPath, parsePathKeys, replacePath, useDeepCompareConstant, useIsFirstMount } from "./util"
 
 export interface FormHandlers {
 
@@ -32,8 +36,9 @@ export interface FormContext<T> extends FormState<T>, FormField<T> {
 
     /**
      * Submit this form.
+     * @returns Whether the submission started, was queued behind one in flight, or was dropped, depending on the submit mode.
      */
-    readonly submit: (event?: FormEvent<unknown> | undefined) => void
+    readonly submit: (event?: FormEvent<unknown> | undefined) => FormSubmitStatus
 
     /**
      * Reinitialize this form. Clears all state, including errors and submission history.
@@ -52,11 +57,85 @@ export interface FormContext<T> extends FormState<T>, FormField<T> {
      */
     readonly reset: () => void
 
+    /**
+     * Resolve a conflict from merging an update of the initial value.
+     * @param path The conflict's path.
+     * @param resolution Keep the user's value, or take the updated value.
+     */
+    readonly resolveConflict: (path: FormErrorPath, resolution: "ours" | "theirs") => void
+
+    /**
+     * Resolve all conflicts from merging an update of the initial value.
+     * @param resolution Keep the user's values, or take the updated values.
+     */
+    readonly resolveConflicts: (resolution: "ours" | "theirs") => void
+
+    /**
+     * Clear the last exception.
+     */
+    readonly clearException: () => void
+
     /**
      * An onKeyUp handler for non-form root elements. If the form is disabled, this will be undefined.
      */
     readonly handlers: FormHandlers
 
+    /**
+     * The form's value comparer.
+     */
+    readonly compare: FormComparer<unknown>
+
+}
+
+const VALIDATE_TRIGGERS: readonly FormValidateTrigger[] = ["blur", "change", "commit", "touch", "beforeSubmit"]
+
+function validateDelay(delay: FormValidateDelay | undefined, trigger: FormValidateTrigger) {
+    return typeof delay === "number" ? delay : delay?.[trigger]
+}
+
+/**
+ * Mark the field at a path as touched.
+ * @param state The form state.
+ * @param path The field's path.
+ * @returns The new form state.
+ */
+function touchState<T>(state: FormInternalState<T>, path: FormErrorPath): FormInternalState<T> {
+    const date = new Date()
+    return {
+        ...state,
+        lastTouched: date,
+        touchedPaths: { ...state.touchedPaths, [formPathKey(path)]: date },
+    }
+}
+
+/**
+ * Move the entries of a map by path key along with the items of an array.
+ * @param map The map.
+ * @param path The array's path.
+ * @param reindex Maps old indexes to new ones, or to undefined if the item was removed.
+ * @returns The new map.
+ */
+function reindexPathKeys<V>(map: { readonly [path: string]: V }, path: FormErrorPath, reindex: (index: number) => number | undefined) {
+    return Object.fromEntries(Object.entries(map).flatMap(([key, value]) => {
+        const reindexed = reindexPath(JSON.parse(key) as FormErrorPath, path, reindex)
+        return reindexed === undefined ? [] : [[formPathKey(reindexed), value] as const]
+    }))
+}
+
+/**
+ * Turn an exception into errors on the whole form.
+ * @param exception The exception.
+ * @returns The errors.
+ */
+function exceptionErrors(exception: unknown): FormErrors {
+    return [
+        {
+            message: exception instanceof Error ? exception.message : "An unexpected error occurred.",
+            code: "exception",
+            params: { exception },
+            temporary: true,
+        }
+    ]
 }
 
 /*
@@ -79,13 +158,14 @@ type FormEvent<T> = SetValueFormEvent<T> | SetErrorsFormEvent | SubmitFormEvent
 /**
  * Generate a form.
  * @typeParam T The value type.
- * @param options Form options.
+ * @param input Form options. Merged with the defaults from the nearest FormDefaultsProvider.
  * @returns A form context.
  */
-export function useForm<T>(options: FormOptions<T>): FormContext<T> {
+export function useForm<T>(input: FormOptions<T>): FormContext<T> {
 
     // Build options and state.
 
+    const options = useFormOptions(input)
     const [state, setState] = useFormState<T>(options)
     /*
         const reducer = useReducer((state: FormState<T>, action: FormEvent<T>) => {
@@ -99,7 +179,11 @@ export function useForm<T>(options: FormOptions<T>): FormContext<T> {
             }
         }, state)*/
 
-    const initialValue = useDeepCompareConstant(options.initial?.value ?? options.initialValue!)
+    const compare = options.compare ?? equals
+    const exceptionMode = options.exceptionMode ?? "throw"
+    const format = useFormMessages()
+    const id = useId()
+    const initialValue = useDeepCompareConstant(options.initial?.value ?? options.initialValue!, compare)
     const initialErrors = useDeepCompareConstant(options.initial?.errors ?? options.initialErrors)
     /*const initial = {
         value: initialValue,
@@ -107,82 +191,211 @@ export function useForm<T>(options: FormOptions<T>): FormContext<T> {
     }*/
     // Initialization function. Can be called manually but generally won't be.
 
-    const doReinitialize = useCallback(() => setState(initialFormState(initialValue, initialErrors)), [initialValue, initialErrors])
+    // In-flight validations and submissions, aborted when superseded, on reinitialization and on unmount.
+
+    const validation = useRef<AbortController | undefined>(undefined)
+    const submissions = useRef(new Set<AbortController>())
+    const submissionQueued = useRef(false)
+    const abortSubmissions = () => {
+        submissions.current.forEach(controller => controller.abort())
+        submissions.current.clear()
+    }
+    const validationTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+    const lastThrottledValidation = useRef(0)
+    const latestValue = useRef(state.value)
+    latestValue.current = state.value
+    const cancelScheduledValidation = () => {
+        clearTimeout(validationTimer.current)
+        validationTimer.current = undefined
+    }
+    const abortAll = () => {
+        cancelScheduledValidation()
+        validation.current?.abort()
+        abortSubmissions()
+        submissionQueued.current = false
+    }
+    useEffect(() => abortAll, [])
+
+    const doReinitialize = useCallback(() => {
+        abortAll()
+        setState(initialFormState(initialValue, initialErrors))
+    }, [initialValue, initialErrors])
     const doReset = useCallback(() => {
         setValue(initialValue, true)
         setErrors(initialErrors)
+        setState(state => ({ ...state, itemKeys: {}, textBuffers: {} }))
     }, [
         initialValue,
         initialErrors,
     ])
 
+    const doMerge = useCallback(() => {
+        setState(state => {
+            const merged = mergeValues(state.initializedValue, initialValue, state.value, compare)
+            // Unresolved conflicts stand unless this update changed their paths, in which case the merge has decided them again.
+            const updated = diffPaths(state.initializedValue, initialValue, compare)
+            const kept = state.conflicts.filter(conflict => !updated.some(path => pathWithin(path, conflict.path) || pathWithin(conflict.path, path)))
+            return {
+                ...state,
+                initializedValue: initialValue,
+                value: merged.value,
+                conflicts: [...kept, ...merged.conflicts],
+                lastChanged: compare(merged.value, state.value) ? state.lastChanged : new Date(),
+            }
+        })
+    }, [
+        initialValue,
+    ])
+
     // Validate function.
 
+    const fieldValidators = useRef(new Set<FormValidator<unknown>>())
+    const hasValidators = () => options.validate !== undefined || fieldValidators.current.size > 0
     const doValidate = () => {
-        const validate = options.validate
-        if (validate === undefined) {
+        const validators = [options.validate, ...fieldValidators.current].filter(isNotNil)
+        if (validators.length === 0) {
             return
         }
-        (async () => {
+        validation.current?.abort()
+        const controller = new AbortController()
+        validation.current = controller
+        const value = state.value
+        const run = async () => {
             try {
-                const errors = buildErrors(await validate(state.value))
+                const results = await Promise.all(validators.map(validate => validate(value, { signal: controller.signal })))
+                if (controller.signal.aborted) {
+                    return
+                }
+                // The value changed while validating, so these results are stale. A validation already scheduled covers the new value; otherwise, schedule one.
+                if (!compare(latestValue.current, value)) {
+                    if (validationTimer.current === undefined) {
+                        scheduleValidation(0)
+                    }
+                    return
+                }
+                const errors = results.flatMap(buildErrors)
+                const valid = !errors.some(errorOfSeverity("error"))
                 setState(state => {
                     const date = new Date()
                     return {
                         ...state,
                         lastValidated: date,
-                        lastValidationResult: errors.length === 0,
-                        isValid: errors.length === 0,
-                        isInvalid: errors.length > 0,
+                        lastValidationResult: valid,
+                        isValid: valid,
+                        isInvalid: !valid,
                         errors
                     }
                 })
             }
             catch (exception) {
+                if (controller.signal.aborted) {
+                    return
+                }
+                options.onException?.(exception, "validate")
                 setState(state => {
-                    return {
+                    const failed = {
                         ...state,
-                        exception
+                        lastValidated: new Date(),
+                        lastValidationResult: false,
+                    }
+                    if (exceptionMode !== "errors") {
+                        return {
+                            ...failed,
+                            exception
+                        }
+                    }
+                    return {
+                        ...failed,
+                        isValid: false,
+                        isInvalid: true,
+                        errors: exceptionErrors(exception)
                     }
                 })
             }
-        })()
+        }
+        run()
     }
 
     // Submit function.
 
     const doSubmit = () => {
-        (async () => {
+        const submitMode = options.submitMode ?? "parallel"
+        if (submissions.current.size > 0) {
+            if (submitMode === "ignore") {
+                return
+            }
+            if (submitMode === "queue") {
+                submissionQueued.current = true
+                return
+            }
+            if (submitMode === "restart") {
+                abortSubmissions()
+            }
+        }
+        const controller = new AbortController()
+        submissions.current.add(controller)
+        const value = state.value
+        const run = async () => {
             try {
-                const value = state.value
-                const results = await options.submit(value)
+                const diff = options.diff === true ? formDiff(state.lastSuccessfulSubmitValue ?? state.initializedValue, value, compare) : undefined
+                const results = await options.submit(value, { signal: controller.signal, diff })
+                if (controller.signal.aborted) {
+                    return
+                }
                 const errors = buildErrors(results).map(error => {
                     return {
                         ...error,
                         temporary: error.temporary ?? true,
                     }
                 })
+                const successful = !errors.some(errorOfSeverity("error"))
                 setState(state => {
                     const date = new Date()
                     return {
                         ...state,
                         lastSubmitted: date,
                         lastSubmitValue: value,
-                        lastSubmitResult: errors.length === 0,
+                        lastSuccessfulSubmitValue: successful ? value : state.lastSuccessfulSubmitValue,
+                        lastSubmitResult: successful,
                         submitCount: state.submitCount + 1,
                         errors
                     }
                 })
             }
             catch (exception) {
+                if (controller.signal.aborted) {
+                    return
+                }
+                options.onException?.(exception, "submit")
                 setState(state => {
-                    return {
+                    const failed = {
                         ...state,
-                        exception
+                        lastSubmitted: new Date(),
+                        lastSubmitValue: value,
+                        lastSubmitResult: false,
+                        submitCount: state.submitCount + 1,
+                    }
+                    if (exceptionMode !== "errors") {
+                        return {
+                            ...failed,
+                            exception
+                        }
+                    }
+                    return {
+                        ...failed,
+                        errors: exceptionErrors(exception)
                     }
                 })
             }
-        })()
+            finally {
+                submissions.current.delete(controller)
+                if (submissionQueued.current && submissions.current.size === 0) {
+                    submissionQueued.current = false
+                    submit()
+                }
+            }
+        }
+        run()
     }
 
     const isFirstMount = useIsFirstMount()
@@ -191,7 +404,10 @@ export function useForm<T>(options: FormOptions<T>): FormContext<T> {
             return
         }
         if (callOrGet(options.autoUpdate, state)) {
-            if (callOrGet(options.reinitializeOnUpdate, state)) {
+            if (callOrGet(options.mergeOnUpdate, state)) {
+                doMerge()
+            }
+            else if (callOrGet(options.reinitializeOnUpdate, state)) {
                 doReinitialize()
             }
             else {
@@ -201,6 +417,7 @@ export function useForm<T>(options: FormOptions<T>): FormContext<T> {
     }, [
         doReinitialize,
         doReset,
+        doMerge,
     ])
     useEffect(() => {
         if (state.lastInitializeRequested === undefined) {
@@ -230,6 +447,7 @@ export function useForm<T>(options: FormOptions<T>): FormContext<T> {
     // Revert to the initial data.
 
     const initialize = useCallback((initialValue: T, initialErrors?: FormErrors | undefined) => {
+        abortAll()
         setState(initialFormState(initialValue, initialErrors))
     }, [
         setState
@@ -244,16 +462,23 @@ export function useForm<T>(options: FormOptions<T>): FormContext<T> {
     }, [
         setState
     ])
-    const submit = useCallback((event?: FormEvent<unknown> | undefined) => {
+    const submit = useCallback((event?: FormEvent<unknown> | undefined): FormSubmitStatus => {
         event?.preventDefault()
+        const submitMode = options.submitMode ?? "parallel"
+        const busy = submissions.current.size > 0
+        if (submitMode === "ignore" && busy) {
+            return "dropped"
+        }
         setState(state => {
             return {
                 ...state,
                 lastSubmitRequested: new Date(),
             }
         })
+        return submitMode === "queue" && busy ? "queued" : "started"
     }, [
-        setState
+        setState,
+        options.submitMode,
     ])
     const validate = useCallback(() => {
         setState(state => {
@@ -266,15 +491,47 @@ export function useForm<T>(options: FormOptions<T>): FormContext<T> {
         setState
     ])
     const reset = doReset //TODO dispatch?
-    const setValue = useCallback((value: SetStateAction<T>, suppressTouch = false) => {
+    const doResolveConflicts = useCallback((resolution: "ours" | "theirs", path?: FormErrorPath | undefined) => {
         setState(state => {
-            const validating = options.validate !== undefined
+            const resolved = state.conflicts.filter(conflict => path === undefined || pathsEqual(conflict.path, path))
+            if (resolved.length === 0) {
+                return state
+            }
             return {
                 ...state,
+                conflicts: state.conflicts.filter(conflict => !resolved.includes(conflict)),
+                ...resolution === "theirs" ? {
+                    value: resolved.reduce((value, conflict) => replacePath(value, conflict.path, lookupPath(state.initializedValue, conflict.path)), state.value as unknown) as T,
+                    lastChanged: new Date(),
+                } : {},
+            }
+        })
+    }, [
+        setState
+    ])
+    const resolveConflict = useCallback((path: FormErrorPath, resolution: "ours" | "theirs") => doResolveConflicts(resolution, path), [doResolveConflicts])
+    const resolveConflicts = useCallback((resolution: "ours" | "theirs") => doResolveConflicts(resolution), [doResolveConflicts])
+    const clearException = useCallback(() => {
+        setState(state => {
+            if (state.exception === undefined) {
+                return state
+            }
+            return {
+                ...state,
+                exception: undefined,
+            }
+        })
+    }, [
+        setState
+    ])
+    const setValue = useCallback((value: SetStateAction<T>, suppressTouch = false) => {
+        setState(state => {
+            const validating = hasValidators()
+            return {
+                ...suppressTouch ? state : touchState(state, []),
                 value: callOrGet(value, state.value),
                 //  valueSource: source,
                 lastChanged: new Date(),
-                lastTouched: suppressTouch ? state.lastTouched : new Date(),
                 //   lastChangedByApi: source === "api" ? new Date() : state.lastChangedByApi,
                 //  lastChangedByUserAction: source === "user-action" ? new Date() : state.lastChangedByUserAction,
                 isValid: validating ? undefined : true,
@@ -297,18 +554,122 @@ export function useForm<T>(options: FormOptions<T>): FormContext<T> {
 
     // The root form group.
 
+    const root: FieldRoot = {
+        id,
+        compare,
+        format,
+        itemKeys: state.itemKeys,
+        setItemKeys: (path, keys) => {
+            setState(state => {
+                const key = formPathKey(path)
+                return {
+                    ...state,
+                    itemKeys: {
+                        ...state.itemKeys,
+                        [key]: callOrGet(keys, state.itemKeys[key] ?? []),
+                    }
+                }
+            })
+        },
+        textBuffers: state.textBuffers,
+        setTextBuffer: (path, text, error) => {
+            setState(state => {
+                const key = formPathKey(path)
+                const { [key]: _, ...textBuffers } = state.textBuffers
+                if (text === undefined) {
+                    return {
+                        ...state,
+                        textBuffers,
+                    }
+                }
+                return {
+                    ...state,
+                    textBuffers: {
+                        ...textBuffers,
+                        [key]: { text, source: lookupPath(state.value, path).value, error },
+                    }
+                }
+            })
+        },
+        dropItemKeys: path => {
+            setState(state => {
+                const keys = parsePathKeys(state.itemKeys).filter(key => {
+                    if (!pathWithin(key, path)) {
+                        return false
+                    }
+                    const value = lookupPath(state.value, key).value
+                    return !Array.isArray(value) || value.length !== state.itemKeys[formPathKey(key)]?.length
+                }).map(formPathKey)
+                if (keys.length === 0) {
+                    return state
+                }
+                return {
+                    ...state,
+                    itemKeys: Object.fromEntries(Object.entries(state.itemKeys).filter(([key]) => !keys.includes(key))),
+                }
+            })
+        },
+        reindexPaths: (path, reindex) => {
+            setState(state => {
+                const focusedPath = state.focusedPath === undefined ? undefined : reindexPath(state.focusedPath, path, reindex)
+                return {
+                    ...state,
+                    itemKeys: reindexPathKeys(state.itemKeys, path, reindex),
+                    textBuffers: reindexPathKeys(state.textBuffers, path, reindex),
+                    touchedPaths: reindexPathKeys(state.touchedPaths, path, reindex),
+                    blurredPaths: reindexPathKeys(state.blurredPaths, path, reindex),
+                    committedPaths: reindexPathKeys(state.committedPaths, path, reindex),
+                    ...focusedPath === undefined ? { focusedPath: undefined } : { focusedPath },
+                }
+            })
+        },
+        touchedPaths: state.touchedPaths,
+        blurredPaths: state.blurredPaths,
+        committedPaths: state.committedPaths,
+        focusedPath: state.focusedPath,
+        touch: path => setState(state => touchState(state, path)),
+        blur: path => {
+            setState(state => {
+                const date = new Date()
+                return {
+                    ...state,
+                    lastBlurred: date,
+                    blurredPaths: { ...state.blurredPaths, [formPathKey(path)]: date },
+                    focusedPath: state.focusedPath !== undefined && pathsEqual(state.focusedPath, path) ? undefined : state.focusedPath,
+                }
+            })
+        },
+        commit: path => {
+            setState(state => {
+                const date = new Date()
+                return {
+                    ...state,
+                    lastCommitted: date,
+                    committedPaths: { ...state.committedPaths, [formPathKey(path)]: date },
+                }
+            })
+        },
+        focus: path => setState(state => ({ ...state, lastFocused: new Date(), focusedPath: path })),
+        addValidator: validator => {
+            fieldValidators.current.add(validator)
+            return () => {
+                fieldValidators.current.delete(validator)
+            }
+        },
+    }
     const group = FormFieldImpl.from({
         path: [],
         value: state.value,
+        initializedValue: state.initializedValue,
         setValue,
         errors: state.errors,
         setErrors,
         disabled: options.disabled,
-        touch: () => setState(state => ({ ...state, lastTouched: new Date() })),
-        blur: () => setState(state => ({ ...state, lastBlurred: new Date() })),
-        commit: () => setState(state => ({ ...state, lastCommitted: new Date() })),
-        focus: () => setState(state => ({ ...state, lastFocused: new Date() })),
-    })
+        touch: () => root.touch([]),
+        blur: () => root.blur([]),
+        commit: () => root.commit([]),
+        focus: () => root.focus([]),
+    }, root)
 
     const handlers = useMemo(() => {
         return {
@@ -335,10 +696,14 @@ export function useForm<T>(options: FormOptions<T>): FormContext<T> {
         initialize,
         reinitialize,
         reset,
+        resolveConflict,
+        resolveConflicts,
+        clearException,
         validate,
         submit,
         setErrors,
         handlers,
+        compare,
     }
 
     FORM_HOOK_KEYS.forEach(item => {
@@ -349,19 +714,58 @@ export function useForm<T>(options: FormOptions<T>): FormContext<T> {
             })
         })
     })
-    const validateOn = options.validateOn ?? "change"
+    const validateOn = [options.validateOn ?? "change"].flat()
     const validateStart = options.validateStart ?? "immediate"
-    useFormAction(context, validateOn, () => {
-        if (options.validate === undefined) {
-            return
-        }
-        if (validateStart === "afterFirstSubmission" && !state.hasBeenSubmitted) {
-            return
-        }
-        validate()
+    const requestValidation = () => {
+        cancelScheduledValidation()
+        setState(state => {
+            return {
+                ...state,
+                validationScheduled: false,
+                lastValidateRequested: new Date(),
+            }
+        })
+    }
+    const scheduleValidation = (delay: number) => {
+        cancelScheduledValidation()
+        validationTimer.current = setTimeout(() => {
+            lastThrottledValidation.current = Date.now()
+            requestValidation()
+        }, delay)
+        setState(state => ({ ...state, validationScheduled: true }))
+    }
+    VALIDATE_TRIGGERS.forEach(trigger => {
+        useFormAction(context, trigger, () => {
+            if (!validateOn.includes(trigger)) {
+                return
+            }
+            if (!hasValidators()) {
+                return
+            }
+            if (validateStart === "afterFirstSubmission" && !state.hasBeenSubmitted) {
+                return
+            }
+            const debounce = validateDelay(options.validateDebounce, trigger)
+            if (debounce !== undefined) {
+                scheduleValidation(debounce)
+                return
+            }
+            const throttle = validateDelay(options.validateThrottle, trigger)
+            if (throttle !== undefined) {
+                const wait = lastThrottledValidation.current + throttle - Date.now()
+                if (wait > 0) {
+                    if (validationTimer.current === undefined) {
+                        scheduleValidation(wait)
+                    }
+                    return
+                }
+                lastThrottledValidation.current = Date.now()
+            }
+            requestValidation()
+        })
     })
 
-    if (state.exception !== undefined) {
+    if (exceptionMode === "throw" && state.exception !== undefined) {
         throw state.exception
     }
 
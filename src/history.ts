@@ -0,0 +1,155 @@
+import { useCallback, useState } from "react"
+import { FormContext } from "./form"
+import { useFormAction } from "./hooks"
+
+/**
+ * A hook that records a history entry. Change and touch are coalesced according to the coalesce option.
+ */
+export type FormHistoryTrigger = "change" | "touch" | "commit" | "blur"
+
+/**
+ * The history options.
+ * @typeParam T The form's value type.
+ */
+export interface FormHistoryOptions<T> {
+
+    /**
+     * The form context.
+     */
+    readonly form: FormContext<T>
+
+    /**
+     * When to record a history entry.
+     * @defaultValue `["commit", "blur"]`
+     */
+    readonly on?: FormHistoryTrigger | readonly FormHistoryTrigger[] | undefined
+
+    /**
+     * Entries recorded within this many milliseconds of the previous entry are merged into it.
+     * @defaultValue `0`
+     */
+    readonly coalesce?: number | undefined
+
+    /**
+     * The maximum number of entries to keep.
+     * @defaultValue `100`
+     */
+    readonly limit?: number | undefined
+
+}
+
+/**
+ * The undo/redo state of a form.
+ */
+export interface FormHistory {
+
+    /**
+     * Whether or not there is anything to undo.
+     */
+    readonly canUndo: boolean
+
+    /**
+     * Whether or not there is anything to redo.
+     */
+    readonly canRedo: boolean
+
+    /**
+     * Revert the form to the previous entry.
+     */
+    undo(): void
+
+    /**
+     * Reapply the last undone entry.
+     */
+    redo(): void
+
+    /**
+     * Forget all entries.
+     */
+    clear(): void
+
+}
+
+interface HistoryState<T> {
+
+    readonly past: readonly T[]
+    readonly present: T
+    readonly future: readonly T[]
+    readonly recorded: number
+
+}
+
+/**
+ * Attach undo/redo functionality to a form. The history is cleared when the form is reinitialized.
+ * @typeParam T The form's value type.
+ * @param options The configuration object.
+ * @returns The history.
+ */
+export function useFormHistory<T>(options: FormHistoryOptions<T>): FormHistory {
+    const form = options.form
+    const limit = options.limit ?? 100
+    const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: form.value, future: [], recorded: 0 })
+    const isModified = !form.compare(form.value, history.present)
+    const record = () => {
+        setHistory(history => {
+            if (form.compare(form.value, history.present)) {
+                return history
+            }
+            const now = Date.now()
+            if (now - history.recorded < (options.coalesce ?? 0)) {
+                return { ...history, present: form.value, future: [], recorded: now }
+            }
+            return {
+                past: [...history.past, history.present].slice(-limit),
+                present: form.value,
+                future: [],
+                recorded: now,
+            }
+        })
+    }
+    const clear = useCallback(() => {
+        setHistory({ past: [], present: form.value, future: [], recorded: 0 })
+    }, [
+        form.value
+    ])
+    const undo = () => {
+        if (isModified) {
+            setHistory({ ...history, future: [form.value, ...history.future], recorded: 0 })
+            form.setValue(history.present)
+            return
+        }
+        if (history.past.length === 0) {
+            return
+        }
+        const previous = history.past[history.past.length - 1]
+        setHistory({
+            past: history.past.slice(0, -1),
+            present: previous as T,
+            future: [history.present, ...history.future],
+            recorded: 0,
+        })
+        form.setValue(previous as T)
+    }
+    const redo = () => {
+        if (history.future.length === 0 || isModified) {
+            return
+        }
+        const [next, ...future] = history.future
+        setHistory({
+            past: [...history.past, history.present].slice(-limit),
+            present: next as T,
+            future,
+            recorded: 0,
+        })
+        form.setValue(next as T)
+    }
+    useFormAction(form, options.on ?? ["commit", "blur"], record)
+    useFormAction(form, "init", clear)
+    return {
+        canUndo: history.past.length > 0 || isModified,
+        canRedo: history.future.length > 0 && !isModified,
+        undo,
+        redo,
+        clear,
+    }
+}
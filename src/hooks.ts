@@ -1,6 +1,9 @@
 import { isNotNil } from "ramda"
+import { useEffect, useRef } from "react"
+import { formPathKey } from "./errors"
+import { FormField } from "./field"
 import { FormContext } from "./form"
-import { FormAction } from "./options"
+import { FormAction, FormValidator } from "./options"
 import { FormState } from "./state"
 import { useDeepCompareEffect } from "./util"
 
@@ -43,3 +46,18 @@ export function useFormAction<T>(form: FormContext<T>, hooks: FormHook | undefin
         value
     ])
 }
+
+/**
+ * Register a validator for a field while the calling component is mounted. Runs alongside the form's validator.
+ * @param field The field.
+ * @param validator The validator. The paths of its errors are relative to the field.
+ */
+export function useFieldValidator<T>(field: FormField<T>, validator: FormValidator<T>) {
+    const latest = useRef(validator)
+    latest.current = validator
+    useEffect(() => {
+        return field.addValidator((value, context) => latest.current(value, context))
+    }, [
+        formPathKey(field.path)
+    ])
+}
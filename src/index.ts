@@ -1,10 +1,19 @@
 
 export * from "./autosubmit"
+export * from "./bind"
 export * from "./control"
+export * from "./diff"
 export * from "./errors"
 export * from "./field"
 export * from "./form"
+export * from "./history"
 export * from "./hooks"
+export * from "./merge"
+export * from "./messages"
 export * from "./options"
+export * from "./persistence"
+export * from "./schema"
+export * from "./server"
 export * from "./state"
+export * from "./sync"
 
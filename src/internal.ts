@@ -1,5 +1,7 @@
 import { ValueOrFactory } from "value-or-factory"
-import { FormErrorInput, FormErrorPath, FormErrors } from "./errors"
+import { FormError, FormErrorInput, FormErrorPath, FormErrors } from "./errors"
+import { FormComparer, FormValidator } from "./options"
+import { FormItemKeys, FormPathDates, FormTextBuffers } from "./state"
 
 export interface FieldInput<G, S = G> {
 
@@ -28,6 +30,11 @@ export interface FieldInput<G, S = G> {
      */
     touch: () => void
 
+    /**
+     * A key for this field. Stable across inserts, removals and moves for the items of array fields.
+     */
+    readonly key?: string | undefined
+
     /**
      * This field's error path.
      */
@@ -38,6 +45,11 @@ export interface FieldInput<G, S = G> {
      */
     readonly value: G
 
+    /**
+     * This field or form's value when the form was initialized.
+     */
+    readonly initializedValue: G
+
     /**
      * Set this field or form's value.
      * @param value The value.
@@ -56,3 +68,88 @@ export interface FieldInput<G, S = G> {
     readonly setErrors: (errors: ValueOrFactory<FormErrorInput, [FormErrors]>) => void
 
 }
+
+/**
+ * Form-wide state shared by all fields of a form.
+ */
+export interface FieldRoot {
+
+    /**
+     * A unique prefix for the ids of the form's fields.
+     */
+    readonly id: string
+
+    /**
+     * Turns errors into messages.
+     */
+    readonly format: (error: FormError) => string
+
+    /**
+     * The form's value comparer.
+     */
+    readonly compare: FormComparer<unknown>
+
+    /**
+     * Stable keys for the items of array fields.
+     */
+    readonly itemKeys: FormItemKeys
+
+    /**
+     * Text typed into coerced fields, excluding text whose value has since changed.
+     */
+    readonly textBuffers: FormTextBuffers
+
+    /**
+     * Buffer text typed into a coerced field, or clear it.
+     */
+    readonly setTextBuffer: (path: FormErrorPath, text: string | undefined, error?: FormError | undefined) => void
+
+    /**
+     * Update the item keys of an array field.
+     * @param path The array field's path.
+     * @param keys The keys.
+     */
+    readonly setItemKeys: (path: FormErrorPath, keys: ValueOrFactory<readonly string[], [readonly string[]]>) => void
+
+    /**
+     * Drop the item keys of array fields at or within a path that no longer match their array's length, when its value is replaced outside of the array operations.
+     * @param path The path.
+     */
+    readonly dropItemKeys: (path: FormErrorPath) => void
+
+    /**
+     * Move everything stored by path within the items of an array field along with the items: interaction state, nested item keys and text buffers.
+     * @param path The array field's path.
+     * @param reindex Maps old indexes to new ones, or to undefined if the item was removed.
+     */
+    readonly reindexPaths: (path: FormErrorPath, reindex: (index: number) => number | undefined) => void
+
+    /**
+     * When each field was last touched, blurred or committed, by path key.
+     */
+    readonly touchedPaths: FormPathDates
+    readonly blurredPaths: FormPathDates
+    readonly committedPaths: FormPathDates
+
+    /**
+     * The path of the currently focused field.
+     */
+    readonly focusedPath?: FormErrorPath | undefined
+
+    /**
+     * Mark the field at a path as blurred, committed, focused or touched.
+     * @param path The field's path.
+     */
+    readonly blur: (path: FormErrorPath) => void
+    readonly commit: (path: FormErrorPath) => void
+    readonly focus: (path: FormErrorPath) => void
+    readonly touch: (path: FormErrorPath) => void
+
+    /**
+     * Register a validator for the form's value, which runs alongside the form's validator.
+     * @param validator The validator. The paths of its errors must be relative to the form.
+     * @returns A function that unregisters the validator.
+     */
+    readonly addValidator: (validator: FormValidator<unknown>) => () => void
+
+}
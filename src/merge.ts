@@ -0,0 +1,87 @@
+import { equals } from "ramda"
+import { FormErrorPath, pathWithin } from "./errors"
+import { FormComparer } from "./options"
+import { diffPaths, lookupPath, replacePath } from "./util"
+
+/**
+ * A path changed both by the user and by an update of the initial value, to different values.
+ */
+export interface FormConflict {
+
+    /**
+     * The path of the conflicting value.
+     */
+    readonly path: FormErrorPath
+
+    /**
+     * The value at the path before the update, or undefined if there was none.
+     */
+    readonly base: unknown
+
+    /**
+     * The value at the path after the update, or undefined if there is none.
+     */
+    readonly theirs: unknown
+
+    /**
+     * The user's value at the path, or undefined if there is none. This is kept in the form until the conflict is resolved.
+     */
+    readonly ours: unknown
+
+}
+
+/**
+ * The result of a three-way merge.
+ * @typeParam T The form's value type.
+ */
+export interface FormMergeResult<T> {
+
+    readonly value: T
+    readonly conflicts: readonly FormConflict[]
+
+}
+
+function arrayPrefix(value: unknown, path: FormErrorPath) {
+    const array = path.findIndex((_, index) => Array.isArray(lookupPath(value, path.slice(0, index)).value))
+    return array === -1 ? path : path.slice(0, array)
+}
+
+/**
+ * Merge an update of the initial value into the user's value. Paths changed only by the update take the updated value, paths changed by the user keep the user's value, and paths changed by both to different values are conflicts. Arrays are merged as a whole.
+ * @typeParam T The form's value type.
+ * @param base The previous initial value.
+ * @param theirs The updated initial value.
+ * @param ours The user's value.
+ * @param compare The comparer.
+ * @returns The merged value and the conflicts.
+ */
+export function mergeValues<T>(base: T, theirs: T, ours: T, compare: FormComparer<unknown> = equals): FormMergeResult<T> {
+    const theirPaths = diffPaths(base, theirs, compare).map(path => arrayPrefix(theirs, arrayPrefix(base, path)))
+    const ourPaths = diffPaths(base, ours, compare).map(path => arrayPrefix(ours, arrayPrefix(base, path)))
+    return theirPaths.reduce<FormMergeResult<unknown>>((result, path) => {
+        const overlapping = ourPaths.filter(ourPath => pathWithin(ourPath, path) || pathWithin(path, ourPath))
+        const their = lookupPath(theirs, path)
+        if (overlapping.length === 0) {
+            return {
+                ...result,
+                value: replacePath(result.value, path, their),
+            }
+        }
+        const conflictPath = overlapping.find(ourPath => ourPath.length < path.length) ?? path
+        if (compare(lookupPath(ours, conflictPath).value, lookupPath(theirs, conflictPath).value) || result.conflicts.some(conflict => pathWithin(conflictPath, conflict.path))) {
+            return result
+        }
+        return {
+            ...result,
+            conflicts: [
+                ...result.conflicts,
+                {
+                    path: conflictPath,
+                    base: lookupPath(base, conflictPath).value,
+                    theirs: lookupPath(theirs, conflictPath).value,
+                    ours: lookupPath(ours, conflictPath).value,
+                },
+            ],
+        }
+    }, { value: ours, conflicts: [] }) as FormMergeResult<T>
+}
@@ -0,0 +1,63 @@
+import { ReactNode, createContext, createElement, useCallback, useContext } from "react"
+import { FormError } from "./errors"
+
+/**
+ * Resolves an error into a message. Returns undefined if it has no message for the error.
+ */
+export type FormMessageFormatter = (error: FormError) => string | undefined
+
+/**
+ * Messages by error code. Strings may reference the error's params as `{name}`.
+ */
+export type FormMessageMap = { readonly [code: string]: string | ((params: { readonly [key: string]: unknown }, error: FormError) => string) }
+
+export const FormMessages = createContext<FormMessageFormatter>(() => undefined)
+
+export interface FormMessagesProviderProps {
+
+    /**
+     * The messages. Errors these cannot resolve fall back to any enclosing provider, then to the error's message.
+     */
+    readonly messages: FormMessageMap | FormMessageFormatter
+
+    readonly children?: ReactNode | undefined
+
+}
+
+function formatterOf(messages: FormMessageMap | FormMessageFormatter): FormMessageFormatter {
+    if (typeof messages === "function") {
+        return messages
+    }
+    return error => {
+        const message = error.code === undefined ? undefined : messages[error.code]
+        if (message === undefined) {
+            return
+        }
+        if (typeof message === "function") {
+            return message(error.params ?? {}, error)
+        }
+        return message.replace(/\{(\w+)\}/g, (match, name: string) => {
+            const param = error.params?.[name]
+            return param === undefined ? match : String(param)
+        })
+    }
+}
+
+/**
+ * Provide localized messages for error codes to all forms within.
+ */
+export function FormMessagesProvider(props: FormMessagesProviderProps) {
+    const outer = useContext(FormMessages)
+    const inner = formatterOf(props.messages)
+    const value = useCallback((error: FormError) => inner(error) ?? outer(error), [outer, props.messages])
+    return createElement(FormMessages.Provider, { value }, props.children)
+}
+
+/**
+ * Get a function that turns an error into a message, using the nearest FormMessagesProvider and falling back to the error's message.
+ * @returns The function.
+ */
+export function useFormMessages() {
+    const formatter = useContext(FormMessages)
+    return useCallback((error: FormError) => formatter(error) ?? error.message, [formatter])
+}
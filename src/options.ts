@@ -1,14 +1,82 @@
-import { createContext } from "react"
+import { isNotNil } from "ramda"
+import { ReactNode, createContext, createElement, useContext } from "react"
 import { ValueOrFactory } from "value-or-factory"
+import { UniversalAutoSubmitOptions } from "./autosubmit"
+import { FormDiff } from "./diff"
 import { FormErrorInput, FormErrors } from "./errors"
 import { FormContext } from "./form"
-import { FormHook as FormEvent } from "./hooks"
+import { FORM_HOOK_KEYS, FormHook as FormEvent } from "./hooks"
 import { FormState } from "./state"
+import { definedProps } from "./util"
 
 export type FormValidationResult = FormErrorInput | void | PromiseLike<FormErrorInput | void>
 export type FormSubmissionResult = FormErrorInput | void | PromiseLike<FormErrorInput | void>
-export type FormValidator<T> = (value: T) => FormValidationResult
-export type FormSubmitter<T> = (value: T) => FormSubmissionResult
+export type FormValidator<T> = (value: T, context: FormValidationContext) => FormValidationResult
+export type FormSubmitter<T> = (value: T, context: FormSubmissionContext<T>) => FormSubmissionResult
+export type FormComparer<T> = (a: T, b: T) => boolean
+
+export interface FormValidationContext {
+
+    /**
+     * Aborted when this validation is superseded by a newer one, or when the form is reinitialized or unmounted. Results of aborted validations are discarded.
+     */
+    readonly signal: AbortSignal
+
+}
+
+export interface FormSubmissionContext<T> {
+
+    /**
+     * Aborted when the form is reinitialized or unmounted. Results of aborted submissions are discarded.
+     */
+    readonly signal: AbortSignal
+
+    /**
+     * The changes since the last successful submission, or since initialization. Only set if the diff option is enabled.
+     */
+    readonly diff?: FormDiff<T> | undefined
+
+}
+
+/**
+ * What to do when a submission is requested while another is in flight.
+ * - `parallel`: Submit again alongside the current submission.
+ * - `ignore`: Drop the new submission.
+ * - `queue`: Submit once more, with the latest value, after the current submission finishes.
+ * - `restart`: Abort the current submission and submit again.
+ */
+export type FormSubmitMode = "parallel" | "ignore" | "queue" | "restart"
+
+/**
+ * The outcome of a submission request.
+ * - `started`: The submission is running.
+ * - `queued`: The submission will run after the one in flight finishes.
+ * - `dropped`: The submission was ignored because another is in flight.
+ */
+export type FormSubmitStatus = "started" | "queued" | "dropped"
+
+/**
+ * A form hook that can trigger validation.
+ */
+export type FormValidateTrigger = "blur" | "change" | "commit" | "touch" | "beforeSubmit"
+
+/**
+ * A delay in milliseconds, for all validation triggers or per trigger.
+ */
+export type FormValidateDelay = number | { readonly [K in FormValidateTrigger]?: number | undefined }
+
+/**
+ * What to do with an exception thrown by the submitter or a validator.
+ * - `throw`: Throw it within React on the next render, to be caught by an error boundary.
+ * - `state`: Keep it in the form's exception property until cleared.
+ * - `errors`: Turn it into a temporary error on the whole form, with the code `exception`.
+ */
+export type FormExceptionMode = "throw" | "state" | "errors"
+
+/**
+ * Where an exception was thrown.
+ */
+export type FormExceptionSource = "submit" | "validate"
 
 export interface UniversalFormOptions {
 
@@ -23,9 +91,37 @@ export interface UniversalFormOptions {
     readonly validateStart?: "immediate" | "afterFirstSubmission" | undefined
 
     /**
-     * When to trigger validation.
+     * When to trigger validation. Multiple triggers can be combined.
+     * @defaultValue `"change"`
+     */
+    readonly validateOn?: FormValidateTrigger | readonly FormValidateTrigger[] | undefined
+
+    /**
+     * Wait until triggers have stopped firing for this long before validating. Triggers without a delay validate immediately.
+     */
+    readonly validateDebounce?: FormValidateDelay | undefined
+
+    /**
+     * Validate at most once per this period. Triggers without a delay validate immediately.
+     */
+    readonly validateThrottle?: FormValidateDelay | undefined
+
+    /**
+     * What to do when a submission is requested while another is in flight. Applies to autosubmits as well.
+     * @defaultValue `"parallel"`
+     */
+    readonly submitMode?: FormSubmitMode | undefined
+
+    /**
+     * What to do with an exception thrown by the submitter or a validator.
+     * @defaultValue `"throw"`
+     */
+    readonly exceptionMode?: FormExceptionMode | undefined
+
+    /**
+     * Called with any exception thrown by the submitter or a validator, for logging or reporting. Called whatever the exception mode.
      */
-    readonly validateOn?: "blur" | "change" | "commit" | undefined
+    readonly onException?: ((exception: unknown, source: FormExceptionSource) => void) | undefined
 
 }
 
@@ -61,6 +157,12 @@ export interface FormOptions<T> extends UniversalFormOptions {
     //TODO remove the above, replace w this
     readonly initial?: FormInitial<T>
 
+    /**
+     * Compares values for equality. Used for the form's value and every value within it, to detect changes to the initial value, dirtiness and whether to autosubmit.
+     * @defaultValue Ramda's `equals`.
+     */
+    readonly compare?: FormComparer<unknown> | undefined
+
     /**
      * Whether or not the form should update if the initial property changes.
      * @defaultValue `false`
@@ -74,12 +176,23 @@ export interface FormOptions<T> extends UniversalFormOptions {
     readonly reinitializeOnUpdate?: ValueOrFactory<boolean, [FormState<T>]> | undefined
 
     /**
-     * Submission function for the form. If this throws an exception, it will be thrown within React. If you want to handle errors, make sure to return a FormError[].
+     * Whether or not the form should merge the initial property into the user's changes if it changes, instead of resetting or reinitializing. Conflicting paths are reported as conflicts.
+     * @defaultValue `false`
+     */
+    readonly mergeOnUpdate?: ValueOrFactory<boolean, [FormState<T>]> | undefined
+
+    /**
+     * Pass the changes since the last successful submission to the submitter, for PATCH requests.
+     */
+    readonly diff?: boolean | undefined
+
+    /**
+     * Submission function for the form. If this throws an exception, it is handled according to the exception mode. If you want to handle errors, make sure to return a FormError[].
      */
     readonly submit: FormSubmitter<T>
 
     /**
-     * Validation function for the form. Should return an array of errors (empty if validation is successful). If this throws an exception, it will be thrown within React. If you want to handle errors, make sure to return a FormError[].
+     * Validation function for the form. Should return an array of errors (empty if validation is successful). If this throws an exception, it is handled according to the exception mode. If you want to handle errors, make sure to return a FormError[].
      */
     readonly validate?: FormValidator<T> | undefined
 
@@ -96,16 +209,75 @@ export type FormActions<T> = {
 
 }
 
-export const FormDefaults = createContext<UniversalFormOptions>({})
+/**
+ * App-wide defaults for forms and autosubmits.
+ */
+export interface FormDefaultOptions extends UniversalFormOptions {
+
+    /**
+     * Actions to be executed on form hooks. These run in addition to the form's own actions. Functions receive the form as a `FormContext<unknown>`.
+     */
+    readonly on?: FormActions<unknown> | undefined
+
+    /**
+     * Defaults for autosubmits.
+     */
+    readonly autoSubmit?: UniversalAutoSubmitOptions | undefined
+
+}
+
+export const FormDefaults = createContext<FormDefaultOptions>({})
+
+export interface FormDefaultsProviderProps {
+
+    /**
+     * The defaults. Merged into the defaults of any enclosing provider.
+     */
+    readonly value: FormDefaultOptions
+
+    readonly children?: ReactNode | undefined
+
+}
+
+/**
+ * Provide defaults to all forms and autosubmits within. Nested providers override outer ones, except for actions, which are concatenated.
+ */
+export function FormDefaultsProvider(props: FormDefaultsProviderProps) {
+    const outer = useContext(FormDefaults)
+    return createElement(FormDefaults.Provider, { value: mergeFormDefaults(outer, props.value) }, props.children)
+}
 
-export function useFormOptions<T>(input: FormOptions<T>) {
-    // const defaults = useContext(FormDefaults)
+function mergeFormActions<T>(a: FormActions<T> | undefined, b: FormActions<T> | undefined): FormActions<T> {
+    return Object.fromEntries(FORM_HOOK_KEYS.map(hook => [hook, [a?.[hook], b?.[hook]].flat().filter(isNotNil)]))
+}
+
+function mergeFormDefaults(outer: FormDefaultOptions, inner: FormDefaultOptions): FormDefaultOptions {
+    return {
+        ...outer,
+        ...definedProps(inner),
+        on: mergeFormActions(outer.on, inner.on),
+        autoSubmit: {
+            ...outer.autoSubmit,
+            ...definedProps(inner.autoSubmit ?? {}),
+            on: {
+                ...outer.autoSubmit?.on,
+                ...inner.autoSubmit?.on,
+            },
+        },
+    }
+}
+
+/**
+ * Merge the defaults from the nearest FormDefaultsProvider into a form's options.
+ * @param input The form's options.
+ * @returns The merged options.
+ */
+export function useFormOptions<T>(input: FormOptions<T>): FormOptions<T> {
+    const { autoSubmit: _, ...defaults } = useContext(FormDefaults)
     return {
-        //   ...defaults,
-        ...input,
-        on: {
-            //    ...defaults.on,
-            ...input.on,
-        }
+        ...defaults,
+        ...definedProps(input),
+        submit: input.submit,
+        on: mergeFormActions(defaults.on as FormActions<T> | undefined, input.on),
     }
 }
@@ -0,0 +1,247 @@
+import { useState } from "react"
+import { FormErrorPath, FormErrors } from "./errors"
+import { FormField } from "./field"
+import { FormContext } from "./form"
+import { useFormAction } from "./hooks"
+
+/**
+ * A key/value store for drafts. Compatible with localStorage and sessionStorage.
+ */
+export interface FormDraftStorage {
+
+    getItem(key: string): string | null
+    setItem(key: string, value: string): void
+    removeItem(key: string): void
+
+}
+
+/**
+ * A saved draft of a form.
+ * @typeParam T The form's value type.
+ */
+export interface FormDraft<T> {
+
+    /**
+     * The version of the form the draft was saved from.
+     */
+    readonly version: number
+
+    /**
+     * When the draft was saved, millisecond timestamp.
+     */
+    readonly timestamp: number
+
+    /**
+     * The form's value.
+     */
+    readonly value: T
+
+    /**
+     * The form's errors, if the errors option is set.
+     */
+    readonly errors?: FormErrors | undefined
+
+    /**
+     * The paths of the form's touched fields, if the touched option is set.
+     */
+    readonly touched?: readonly FormErrorPath[] | undefined
+
+}
+
+/**
+ * Turns drafts into strings and back.
+ * @typeParam T The form's value type.
+ */
+export interface FormDraftSerializer<T> {
+
+    stringify(draft: FormDraft<T>): string
+    parse(text: string): FormDraft<T>
+
+}
+
+/**
+ * The persistence options.
+ * @typeParam T The form's value type.
+ */
+export interface FormPersistenceOptions<T> {
+
+    /**
+     * The form context.
+     */
+    readonly form: FormContext<T>
+
+    /**
+     * The storage key for the draft.
+     */
+    readonly key: string
+
+    /**
+     * Where to store the draft. If there is no storage, nothing is persisted.
+     * @defaultValue `localStorage`
+     */
+    readonly storage?: FormDraftStorage | undefined
+
+    /**
+     * The version of the form. Drafts saved with a different version are discarded. Bump this when the value type changes.
+     * @defaultValue `0`
+     */
+    readonly version?: number | undefined
+
+    /**
+     * How to turn drafts into strings and back.
+     * @defaultValue JSON, with dates kept as dates.
+     */
+    readonly serialize?: FormDraftSerializer<T> | undefined
+
+    /**
+     * Also save the form's errors.
+     */
+    readonly errors?: boolean | undefined
+
+    /**
+     * Also save which fields have been touched.
+     */
+    readonly touched?: boolean | undefined
+
+    /**
+     * Set this to true to disable persistence.
+     */
+    readonly disabled?: boolean | undefined
+
+}
+
+/**
+ * The status of a form's persisted draft.
+ * @typeParam T The form's value type.
+ */
+export interface FormPersistence<T> {
+
+    /**
+     * A draft found in storage when the form was mounted, which has not yet been restored or discarded.
+     */
+    readonly draft: FormDraft<T> | undefined
+
+    /**
+     * Load the draft into the form.
+     */
+    restore(): void
+
+    /**
+     * Remove the draft from storage.
+     */
+    discard(): void
+
+}
+
+function defaultStorage(): FormDraftStorage | undefined {
+    try {
+        return typeof window === "undefined" ? undefined : window.localStorage
+    }
+    catch {
+        return
+    }
+}
+
+// JSON turns dates into strings before a replacer sees them, so dates are tagged by looking them up on their holder.
+const jsonSerializer: FormDraftSerializer<unknown> = {
+    stringify(draft) {
+        return JSON.stringify(draft, function (this: { readonly [key: string]: unknown }, key, value: unknown) {
+            const original = this[key]
+            return original instanceof Date ? { $date: original.getTime() } : value
+        })
+    },
+    parse(text) {
+        return JSON.parse(text, (_key, value: unknown) => {
+            if (typeof value === "object" && value !== null && Object.keys(value).length === 1 && "$date" in value && typeof value.$date === "number") {
+                return new Date(value.$date)
+            }
+            return value
+        }) as FormDraft<unknown>
+    },
+}
+
+function tryStorage(action: () => void) {
+    try {
+        action()
+    }
+    catch {
+        // Storage can be full or unavailable, as in some private browsing modes. Drafts are a convenience, so this is not an error.
+    }
+}
+
+function fieldAt<T>(field: FormField<T>, path: FormErrorPath) {
+    return path.reduce((field: FormField<unknown>, segment) => {
+        if (typeof segment === "number") {
+            return (field as FormField<readonly unknown[]>).at(segment)
+        }
+        return (field as FormField<{ readonly [key: string]: unknown }>).prop(segment)
+    }, field.transform<unknown>(value => value, value => value as T))
+}
+
+/**
+ * Save a form's value to storage as the user edits it, so that it can be restored after a reload. The draft is removed after a successful submission.
+ * @typeParam T The form's value type.
+ * @param options The configuration object.
+ * @returns The status of the draft.
+ */
+export function useFormPersistence<T>(options: FormPersistenceOptions<T>): FormPersistence<T> {
+    const form = options.form
+    const storage = options.disabled === true ? undefined : options.storage ?? defaultStorage()
+    const version = options.version ?? 0
+    const serializer = options.serialize ?? jsonSerializer as FormDraftSerializer<T>
+    const [draft, setDraft] = useState(() => {
+        const text = storage?.getItem(options.key)
+        if (text === null || text === undefined) {
+            return
+        }
+        try {
+            const draft = serializer.parse(text) as FormDraft<T>
+            if (draft.version === version && !form.compare(draft.value, form.value)) {
+                return draft
+            }
+        }
+        catch {
+            // Unreadable drafts are discarded.
+        }
+        tryStorage(() => storage?.removeItem(options.key))
+        return
+    })
+    const discard = () => {
+        tryStorage(() => storage?.removeItem(options.key))
+        setDraft(undefined)
+    }
+    const restore = () => {
+        if (draft === undefined) {
+            return
+        }
+        form.setValue(draft.value)
+        if (draft.errors !== undefined) {
+            form.setErrors(draft.errors)
+        }
+        draft.touched?.forEach(path => fieldAt(form, path).touch())
+        setDraft(undefined)
+    }
+    // Only the user's own edits are saved, as touching marks them. A pending draft is kept until it is restored or discarded.
+    useFormAction(form, "touch", () => {
+        if (storage === undefined || draft !== undefined) {
+            return
+        }
+        tryStorage(() => storage.setItem(options.key, serializer.stringify({
+            version,
+            timestamp: Date.now(),
+            value: form.value,
+            errors: options.errors === true ? form.errors : undefined,
+            touched: options.touched === true ? Object.keys(form.touchedPaths).map(key => JSON.parse(key) as FormErrorPath) : undefined,
+        })))
+    })
+    useFormAction(form, "afterSubmit", () => {
+        if (form.lastSubmitResult === true) {
+            discard()
+        }
+    })
+    return {
+        draft,
+        restore,
+        discard,
+    }
+}
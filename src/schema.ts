@@ -0,0 +1,99 @@
+import { FormErrorPath, FormErrors } from "./errors"
+import { FormSubmissionContext, FormSubmissionResult, FormSubmitter, FormValidator } from "./options"
+
+/**
+ * A schema compliant with the Standard Schema spec (https://standardschema.dev), such as a Zod, Valibot or ArkType schema.
+ * @typeParam Input The schema's input type.
+ * @typeParam Output The schema's output type.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+
+    readonly "~standard": StandardSchemaV1.Props<Input, Output>
+
+}
+
+export namespace StandardSchemaV1 {
+
+    export interface Props<Input = unknown, Output = Input> {
+        readonly version: 1
+        readonly vendor: string
+        readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>
+        readonly types?: Types<Input, Output> | undefined
+    }
+
+    export type Result<Output> = SuccessResult<Output> | FailureResult
+
+    export interface SuccessResult<Output> {
+        readonly value: Output
+        readonly issues?: undefined
+    }
+
+    export interface FailureResult {
+        readonly issues: readonly Issue[]
+    }
+
+    export interface Issue {
+        readonly message: string
+        readonly path?: readonly (PropertyKey | PathSegment)[] | undefined
+    }
+
+    export interface PathSegment {
+        readonly key: PropertyKey
+    }
+
+    export interface Types<Input = unknown, Output = Input> {
+        readonly input: Input
+        readonly output: Output
+    }
+
+}
+
+/**
+ * Turn Standard Schema issues into form errors.
+ * @param issues The issues.
+ * @returns Form errors, with paths matching the form's fields.
+ */
+export function schemaErrors(issues: readonly StandardSchemaV1.Issue[]): FormErrors {
+    return issues.map(issue => {
+        return {
+            message: issue.message,
+            path: (issue.path ?? []).map(schemaPathSegment),
+        }
+    })
+}
+
+function schemaPathSegment(segment: PropertyKey | StandardSchemaV1.PathSegment): FormErrorPath[number] {
+    const key = typeof segment === "object" ? segment.key : segment
+    return typeof key === "number" ? key : String(key)
+}
+
+/**
+ * Build a form validator from a Standard Schema.
+ * @typeParam T The value type.
+ * @param schema The schema.
+ * @returns A form validator.
+ */
+export function schemaValidator<T>(schema: StandardSchemaV1<T, unknown>): FormValidator<T> {
+    return async value => {
+        const result = await schema["~standard"].validate(value)
+        return schemaErrors(result.issues ?? [])
+    }
+}
+
+/**
+ * Build a form submitter that validates the value against a Standard Schema and, if successful, submits the schema's parsed output.
+ * @typeParam T The value type.
+ * @typeParam O The schema's output type.
+ * @param schema The schema.
+ * @param submit The submitter for the parsed output.
+ * @returns A form submitter.
+ */
+export function schemaSubmitter<T, O>(schema: StandardSchemaV1<T, O>, submit: (value: O, context: FormSubmissionContext<T>) => FormSubmissionResult): FormSubmitter<T> {
+    return async (value, context) => {
+        const result = await schema["~standard"].validate(value)
+        if (result.issues !== undefined) {
+            return schemaErrors(result.issues)
+        }
+        return submit(result.value, context)
+    }
+}
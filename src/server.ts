@@ -0,0 +1,152 @@
+import { FormError, FormErrorInput, FormErrorPath, parseDottedPath, parseJsonPointer } from "./errors"
+import { isPlainObject } from "./util"
+
+/**
+ * How paths in a server error payload are written.
+ * - pointer: RFC 6901 JSON Pointers, such as `/items/0/name`. Paths without a leading slash are read as dotted paths.
+ * - dotted: Dotted paths with bracketed indexes, such as `items[0].name`.
+ * - auto: JSON Pointers if they start with a slash or hash, otherwise dotted paths.
+ * A function may be given to parse paths in any other form.
+ */
+export type ServerErrorPathStyle = "auto" | "pointer" | "dotted" | ((path: string) => FormErrorPath)
+
+export interface ServerErrorsOptions {
+
+    /**
+     * How paths are written. Defaults to auto.
+     */
+    readonly paths?: ServerErrorPathStyle | undefined
+
+    /**
+     * A path to prefix each error's path with, for when the payload describes a part of the form's value.
+     */
+    readonly prefix?: FormErrorPath | undefined
+
+    /**
+     * Keys in a flat map that hold errors for the whole form, such as `non_field_errors` or `base`. The empty key always does.
+     */
+    readonly formKeys?: readonly string[] | undefined
+
+}
+
+/**
+ * An RFC 7807 problem details object, with validation problems in `invalid-params` or in RFC 9457 style `errors`.
+ */
+export interface ServerProblem {
+    readonly type?: string | undefined
+    readonly title?: string | undefined
+    readonly detail?: string | undefined
+    readonly "invalid-params"?: readonly ServerProblem.InvalidParam[] | undefined
+    readonly errors?: readonly ServerProblem.Error[] | undefined
+}
+
+export namespace ServerProblem {
+
+    export interface InvalidParam {
+        readonly name?: string | undefined
+        readonly pointer?: string | undefined
+        readonly reason?: string | undefined
+        readonly code?: string | undefined
+    }
+
+    export interface Error {
+        readonly detail?: string | undefined
+        readonly pointer?: string | undefined
+        readonly code?: string | undefined
+    }
+
+}
+
+/**
+ * A flat map of paths to messages, such as `{ "items[0].name": ["Required."] }`.
+ */
+export type ServerErrorMap = { readonly [path: string]: string | readonly string[] | undefined }
+
+function parsePath(path: string, options: ServerErrorsOptions) {
+    const style = options.paths ?? "auto"
+    const parsed = (() => {
+        if (typeof style === "function") {
+            return style(path)
+        }
+        if ((style === "pointer" || style === "auto") && (path === "" || path.startsWith("/") || path === "#" || path.startsWith("#/"))) {
+            return parseJsonPointer(path)
+        }
+        return parseDottedPath(path)
+    })()
+    return [...options.prefix ?? [], ...parsed]
+}
+
+function serverError(message: string, path: string | undefined, code: string | undefined, options: ServerErrorsOptions): FormError {
+    return {
+        message,
+        path: path === undefined ? [...options.prefix ?? []] : parsePath(path, options),
+        ...code === undefined ? {} : { code },
+    }
+}
+
+/**
+ * Turn an RFC 7807 problem details object into form errors. If it has no validation problems, its detail or title becomes an error for the whole form.
+ * @param problem The problem.
+ * @param options Options.
+ * @returns Form errors.
+ */
+export function problemErrors(problem: ServerProblem, options: ServerErrorsOptions = {}): FormErrorInput {
+    const params = (problem["invalid-params"] ?? []).map(param => serverError(param.reason ?? problem.title ?? "Invalid.", param.pointer ?? param.name, param.code, options))
+    const errors = (problem.errors ?? []).map(error => serverError(error.detail ?? problem.title ?? "Invalid.", error.pointer, error.code, options))
+    const all = [...params, ...errors]
+    if (all.length === 0) {
+        const message = problem.detail ?? problem.title
+        if (message !== undefined) {
+            return serverError(message, undefined, undefined, options)
+        }
+    }
+    return all
+}
+
+/**
+ * Turn a flat map of paths to messages into form errors.
+ * @param map The map.
+ * @param options Options.
+ * @returns Form errors.
+ */
+export function mapErrors(map: ServerErrorMap, options: ServerErrorsOptions = {}): FormErrorInput {
+    const formKeys = options.formKeys ?? []
+    return Object.entries(map).flatMap(([key, messages]) => {
+        if (messages === undefined) {
+            return []
+        }
+        const path = key === "" || formKeys.includes(key) ? undefined : key
+        return [messages].flat().filter(message => typeof message === "string").map(message => serverError(message, path, undefined, options))
+    })
+}
+
+/**
+ * Turn a server error payload into form errors, so a submitter can return them directly. Accepts a message, an RFC 7807 problem details object, or a flat map of paths to messages.
+ * An object is read as a problem if it has invalid-params, or a string title or detail and no other lists of messages. Use problemErrors or mapErrors directly if a payload could be mistaken for the other.
+ * @param payload The payload.
+ * @param options Options.
+ * @returns Form errors.
+ */
+export function serverErrors(payload: unknown, options: ServerErrorsOptions = {}): FormErrorInput {
+    if (typeof payload === "string") {
+        return serverError(payload, undefined, undefined, options)
+    }
+    if (!isPlainObject(payload)) {
+        return
+    }
+    if (isProblem(payload)) {
+        return problemErrors(payload as ServerProblem, options)
+    }
+    return mapErrors(payload as ServerErrorMap, options)
+}
+
+function isProblem(payload: { readonly [key: string]: unknown }) {
+    if (Array.isArray(payload["invalid-params"])) {
+        return true
+    }
+    const described = typeof payload["title"] === "string" || typeof payload["detail"] === "string"
+    const members = ["type", "title", "detail"].every(key => payload[key] === undefined || typeof payload[key] === "string")
+    // RFC 9457 errors are objects, while a field map holds lists of messages.
+    const lists = Object.entries(payload).some(([key, value]) => Array.isArray(value) && !(key === "errors" && value.every(isPlainObject)))
+    return described && members && !lists
+}
@@ -1,6 +1,46 @@
-import { useState } from "react"
-import { FormErrors } from "./errors"
+import { equals } from "ramda"
+import { useMemo, useState } from "react"
+import { FormError, FormErrorPath, FormErrors, errorOfSeverity } from "./errors"
+import { FormConflict } from "./merge"
 import { FormOptions } from "./options"
+import { diffPaths, lookupPath } from "./util"
+
+/**
+ * Stable keys for the items of array fields, by the array field's path key.
+ */
+export type FormItemKeys = { readonly [path: string]: readonly string[] }
+
+/**
+ * Interaction dates, by path key.
+ */
+export type FormPathDates = { readonly [path: string]: Date }
+
+/**
+ * Text typed into a coerced field that differs from its formatted value, such as unparseable text or "1." for 1.
+ */
+export interface FormTextBuffer {
+
+    /**
+     * The typed text.
+     */
+    readonly text: string
+
+    /**
+     * The form's value at the field's path when the text was typed. If the value has since changed, the text is discarded.
+     */
+    readonly source: unknown
+
+    /**
+     * The error for unparseable text.
+     */
+    readonly error?: FormError | undefined
+
+}
+
+/**
+ * Text buffers of coerced fields, by path key.
+ */
+export type FormTextBuffers = { readonly [path: string]: FormTextBuffer }
 
 /**
  * A form's internal state.
@@ -8,7 +48,7 @@ import { FormOptions } from "./options"
 export interface FormInternalState<T> {
 
     /**
-     * The last exception to occur within submission or validation.
+     * The last exception to occur within submission or validation. Not set if the exception mode is errors.
      */
     readonly exception?: unknown
 
@@ -27,6 +67,21 @@ export interface FormInternalState<T> {
      */
     readonly errors?: FormErrors | undefined
 
+    /**
+     * Paths where an update of the initial value conflicts with the user's changes. Only set if mergeOnUpdate is enabled.
+     */
+    readonly conflicts: readonly FormConflict[]
+
+    /**
+     * Stable keys for the items of array fields.
+     */
+    readonly itemKeys: FormItemKeys
+
+    /**
+     * Text typed into coerced fields.
+     */
+    readonly textBuffers: FormTextBuffers
+
     readonly lastInitializeRequested?: Date | undefined
     readonly lastInitialized: Date
 
@@ -38,10 +93,23 @@ export interface FormInternalState<T> {
     readonly lastChangedByUserAction?: Date | undefined
     readonly lastCommitted?: Date | undefined
 
+    /**
+     * When each field was last touched, blurred or committed, by path key.
+     */
+    readonly touchedPaths: FormPathDates
+    readonly blurredPaths: FormPathDates
+    readonly committedPaths: FormPathDates
+
+    /**
+     * The path of the currently focused field.
+     */
+    readonly focusedPath?: FormErrorPath | undefined
+
     /**
      * Validation history.
      */
     readonly lastValidateRequested?: Date | undefined
+    readonly validationScheduled?: boolean | undefined
     readonly lastValidated?: Date | undefined
     readonly lastValidationResult?: boolean | undefined
     readonly isValid?: boolean | undefined
@@ -53,6 +121,7 @@ export interface FormInternalState<T> {
     readonly lastSubmitRequested?: Date | undefined
     readonly lastSubmitted?: Date | undefined
     readonly lastSubmitValue?: T | undefined
+    readonly lastSuccessfulSubmitValue?: T | undefined
     readonly lastSubmitResult?: boolean | undefined
     readonly submitCount: number
 
@@ -70,6 +139,12 @@ export function initialFormState<T>(initialValue: T, initialErrors?: FormErrors
         value: initialValue,
         valueSource: "api" as const,
         errors: initialErrors,
+        conflicts: [],
+        itemKeys: {},
+        textBuffers: {},
+        touchedPaths: {},
+        blurredPaths: {},
+        committedPaths: {},
         submitCount: 0,
     }
 }
@@ -78,24 +153,54 @@ export function useFormState<T>(options: FormOptions<T>) {
 
     const [state, setState] = useState<FormInternalState<T>>(initialFormState(options.initial?.value ?? options.initialValue!, options.initialErrors))
 
-    const isValidating = (state.lastValidateRequested?.getTime() ?? 0) > (state.lastValidated?.getTime() ?? 0)
+    const isValidating = state.validationScheduled === true || (state.lastValidateRequested?.getTime() ?? 0) > (state.lastValidated?.getTime() ?? 0)
     const isSubmitting = (state.lastSubmitRequested?.getTime() ?? 0) > (state.lastSubmitted?.getTime() ?? 0)
 
-    const canSubmit = !(state.errors ?? []).some(_ => _.temporary !== true)
-
-    // const isDirty = useMemo(() => (state.lastChanged?.getTime() ?? 0) > state.lastInitialized.getTime() && !equals(state.value, state.initializedValue), [state.value, state.initializedValue])
-    //  const isDirtySinceSubmitted = useMemo(() => (state.lastChanged?.getTime() ?? 0) > (state.lastSubmitted?.getTime() ?? 0) && !equals(state.value, state.lastSubmitValue ?? state.initializedValue), [state.value, state.lastSubmitValue ?? state.initializedValue])
+    const compare = options.compare ?? equals
+
+    // Buffers are dropped once the value at their path changes from elsewhere.
+    // Buffers are moved by key when array items are reindexed, so each error's path is rebuilt from its key.
+    const textBuffers = useMemo(() => {
+        return Object.fromEntries(Object.entries(state.textBuffers).flatMap(([key, buffer]) => {
+            const path = JSON.parse(key) as FormErrorPath
+            if (!compare(lookupPath(state.value, path).value, buffer.source)) {
+                return []
+            }
+            if (buffer.error === undefined) {
+                return [[key, buffer] as const]
+            }
+            return [[key, { ...buffer, error: { ...buffer.error, path } }] as const]
+        }))
+    }, [compare, state.value, state.textBuffers])
+    const errors = useMemo(() => {
+        const bufferErrors = Object.values(textBuffers).flatMap(buffer => buffer.error ?? [])
+        return bufferErrors.length === 0 ? state.errors : [...state.errors ?? [], ...bufferErrors]
+    }, [state.errors, textBuffers])
+
+    const canSubmit = !(errors ?? []).filter(errorOfSeverity("error")).some(_ => _.temporary !== true)
+    const isDirty = useMemo(() => !compare(state.value, state.initializedValue), [compare, state.value, state.initializedValue])
+    const isDirtySinceSubmitted = useMemo(() => !compare(state.value, state.lastSubmitValue ?? state.initializedValue), [compare, state.value, state.lastSubmitValue ?? state.initializedValue])
+    /**
+     * Get the paths whose values differ from their initialized values. Diffing the whole value is costly for large forms, so it is only done when called, and the result is kept until the value changes.
+     */
+    const getDirtyPaths = useMemo(() => {
+        let paths: readonly FormErrorPath[] | undefined
+        return () => paths ??= diffPaths(state.initializedValue, state.value, compare)
+    }, [compare, state.value, state.initializedValue])
 
     const hasBeenSubmitted = state.submitCount > 0
 
     const value = {
         ...state,
+        textBuffers,
+        ...errors === undefined ? {} : { errors },
         isValidating,
         isSubmitting,
         canSubmit,
         hasBeenSubmitted,
-        //    isDirty,
-        //   isDirtySinceSubmitted,
+        isDirty,
+        isDirtySinceSubmitted,
+        getDirtyPaths,
     }
 
     return [value, setState] as const
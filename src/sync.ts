@@ -0,0 +1,255 @@
+import { useEffect, useRef, useState } from "react"
+import { FormContext } from "./form"
+import { useFormAction } from "./hooks"
+import { FormConflict, mergeValues } from "./merge"
+
+/**
+ * A message sent between synchronized forms.
+ */
+export interface FormSyncMessage {
+
+    /**
+     * The form id.
+     */
+    readonly id: string
+
+    /**
+     * The instance that sent the message.
+     */
+    readonly source: string
+
+    /**
+     * Whether the value was changed or submitted.
+     */
+    readonly type: "change" | "submit"
+
+    /**
+     * The form's value.
+     */
+    readonly value: unknown
+
+    /**
+     * The last value the sender received from other instances, or undefined if it has received none. Receivers merge against this, as the value both sides last had in common.
+     */
+    readonly base?: unknown
+
+    /**
+     * When the message was sent, millisecond timestamp.
+     */
+    readonly timestamp: number
+
+}
+
+/**
+ * Carries messages between synchronized forms. Inject your own for testing or for environments without BroadcastChannel.
+ */
+export interface FormSyncTransport {
+
+    /**
+     * Send a message to all other subscribers.
+     */
+    post(message: FormSyncMessage): void
+
+    /**
+     * Listen for messages.
+     * @returns A function that stops listening.
+     */
+    subscribe(listener: (message: FormSyncMessage) => void): () => void
+
+    /**
+     * Release any resources held by the transport.
+     */
+    close?(): void
+
+}
+
+/**
+ * Create a transport using a BroadcastChannel, which reaches other tabs and windows of the same origin.
+ * @param name The channel name.
+ * @returns A transport.
+ */
+export function broadcastChannelTransport(name: string): FormSyncTransport {
+    const channel = new BroadcastChannel(name)
+    return {
+        post: message => channel.postMessage(message),
+        subscribe: listener => {
+            const handler = (event: MessageEvent<FormSyncMessage>) => listener(event.data)
+            channel.addEventListener("message", handler)
+            return () => channel.removeEventListener("message", handler)
+        },
+        close: () => channel.close(),
+    }
+}
+
+/**
+ * The sync options.
+ * @typeParam T The form's value type.
+ */
+export interface FormSyncOptions<T> {
+
+    /**
+     * The form context.
+     */
+    readonly form: FormContext<T>
+
+    /**
+     * Identifies the form, e.g. by the record it edits. Only forms with the same id are synchronized.
+     */
+    readonly id: string
+
+    /**
+     * How to handle changes from other instances. Merge applies the paths they changed to this form immediately, keeping this instance's own changes; paths changed by both are reported as conflicts. Flag marks this form as stale, so the user can reload.
+     * @defaultValue `"flag"`
+     */
+    readonly mode?: "merge" | "flag" | undefined
+
+    /**
+     * The transport.
+     * @defaultValue A BroadcastChannel transport, if BroadcastChannel is available.
+     */
+    readonly transport?: FormSyncTransport | undefined
+
+    /**
+     * Set this to true to disable synchronization.
+     */
+    readonly disabled?: boolean | undefined
+
+}
+
+/**
+ * The sync status of a form.
+ * @typeParam T The form's value type.
+ */
+export interface FormSync<T> {
+
+    /**
+     * Whether or not another instance has changed or submitted the form since it was last reloaded. Only set in flag mode.
+     */
+    readonly isStale: boolean
+
+    /**
+     * The latest message from another instance that has not been reloaded or dismissed. In merge mode, only set while there are conflicts.
+     */
+    readonly latest: FormSyncMessage & { readonly value: T } | undefined
+
+    /**
+     * Paths changed both by this instance and another, in merge mode. This instance's values are kept until reloaded or dismissed.
+     */
+    readonly conflicts: readonly FormConflict[]
+
+    /**
+     * Load the latest value from another instance into the form.
+     */
+    reload(): void
+
+    /**
+     * Keep this form's value and clear the stale flag.
+     */
+    dismiss(): void
+
+}
+
+/**
+ * Synchronize a form's value across tabs or other instances.
+ * @typeParam T The form's value type.
+ * @param options The configuration object.
+ * @returns The sync status.
+ */
+export function useFormSync<T>(options: FormSyncOptions<T>): FormSync<T> {
+    const form = options.form
+    const mode = options.mode ?? "flag"
+    const [source] = useState(() => Math.random().toString(36).slice(2))
+    const [latest, setLatest] = useState<FormSyncMessage & { readonly value: T }>()
+    const [conflicts, setConflicts] = useState<readonly FormConflict[]>([])
+    // The last value received from other instances, sent along as the base for their merges.
+    const shared = useRef<{ readonly value: T } | undefined>(undefined)
+    const transport = useRef<FormSyncTransport | undefined>(undefined)
+    const received = useRef<{ readonly value: T } | undefined>(undefined)
+    const apply = (value: T) => {
+        received.current = { value }
+        form.setValue(value, true)
+    }
+    const onMessage = useRef<(message: FormSyncMessage & { readonly value: T }) => void>(undefined)
+    onMessage.current = message => {
+        if (mode === "merge") {
+            const base = message.base === undefined ? form.initializedValue : message.base as T
+            const merged = mergeValues(base, message.value, form.value, form.compare)
+            shared.current = { value: message.value }
+            apply(merged.value)
+            setConflicts(merged.conflicts)
+            setLatest(merged.conflicts.length === 0 ? undefined : message)
+        }
+        else {
+            setLatest(message)
+        }
+    }
+    useEffect(() => {
+        if (options.disabled === true) {
+            return
+        }
+        const current = options.transport ?? (typeof BroadcastChannel === "undefined" ? undefined : broadcastChannelTransport("react-tform:" + options.id))
+        if (current === undefined) {
+            return
+        }
+        transport.current = current
+        const unsubscribe = current.subscribe(message => {
+            if (message.id !== options.id || message.source === source) {
+                return
+            }
+            onMessage.current?.(message as FormSyncMessage & { readonly value: T })
+        })
+        return () => {
+            unsubscribe()
+            transport.current = undefined
+            if (options.transport === undefined) {
+                current.close?.()
+            }
+        }
+    }, [
+        options.id,
+        options.transport,
+        options.disabled,
+    ])
+    const post = (type: FormSyncMessage["type"], value: T) => {
+        transport.current?.post({
+            id: options.id,
+            source,
+            type,
+            value,
+            base: shared.current?.value,
+            timestamp: Date.now(),
+        })
+    }
+    useFormAction(form, "change", () => {
+        // Don't echo values received from other instances.
+        if (received.current !== undefined && form.compare(received.current.value, form.value)) {
+            return
+        }
+        post("change", form.value)
+    })
+    useFormAction(form, "afterSubmit", () => {
+        if (form.lastSubmitResult === true && form.lastSubmitValue !== undefined) {
+            post("submit", form.lastSubmitValue)
+        }
+    })
+    const reload = () => {
+        if (latest === undefined) {
+            return
+        }
+        shared.current = { value: latest.value }
+        apply(latest.value)
+        setLatest(undefined)
+        setConflicts([])
+    }
+    const dismiss = () => {
+        setLatest(undefined)
+        setConflicts([])
+    }
+    return {
+        isStale: mode === "flag" && latest !== undefined,
+        latest,
+        conflicts,
+        reload,
+        dismiss,
+    }
+}
@@ -1,5 +1,7 @@
 import { equals } from "ramda"
 import { DependencyList, EffectCallback, useEffect, useMemo, useRef } from "react"
+import { FormErrorPath } from "./errors"
+import { FormComparer } from "./options"
 
 export function useIsFirstMount() {
     const isFirst = useRef(true)
@@ -18,8 +20,12 @@ export function useDeepCompareMemo<T, TDeps extends DependencyList>(factory: ()
     return useMemo(factory, ref.current)
 }
 
-export function useDeepCompareConstant<T>(value: T) {
-    return useDeepCompareMemo(() => value, [value])
+export function useDeepCompareConstant<T>(value: T, compare: FormComparer<T> = equals) {
+    const ref = useRef<{ readonly value: T } | undefined>(undefined)
+    if (ref.current === undefined || !compare(ref.current.value, value)) {
+        ref.current = { value }
+    }
+    return ref.current.value
 }
 
 export function useDeepCompareEffect<TDeps extends DependencyList>(effect: EffectCallback, deps: TDeps) {
@@ -29,3 +35,101 @@ export function useDeepCompareEffect<TDeps extends DependencyList>(effect: Effec
     }
     return useEffect(effect, ref.current)
 }
+
+export function isPlainObject(value: unknown): value is { readonly [key: string]: unknown } {
+    if (typeof value !== "object" || value === null) {
+        return false
+    }
+    const prototype = Object.getPrototypeOf(value)
+    return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * Find the paths at which two values differ. Descends into arrays and plain objects only.
+ * @param a The first value.
+ * @param b The second value.
+ * @param compare The comparer.
+ * @param path The path of the values.
+ * @returns The paths of the differences.
+ */
+export function diffPaths(a: unknown, b: unknown, compare: FormComparer<unknown> = equals, path: FormErrorPath = []): readonly FormErrorPath[] {
+    if (compare(a, b)) {
+        return []
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return Array.from({ length: Math.max(a.length, b.length) }, (_, index) => diffPaths(a[index], b[index], compare, [...path, index])).flat()
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        return [...new Set([...Object.keys(a), ...Object.keys(b)])].flatMap(key => diffPaths(a[key], b[key], compare, [...path, key]))
+    }
+    return [path]
+}
+
+/**
+ * Find the value at a path. Descends into arrays and plain objects only.
+ * @param value The value.
+ * @param path The path.
+ * @returns Whether anything was found at the path, and if so, the value.
+ */
+export function lookupPath(value: unknown, path: FormErrorPath): { readonly found: boolean, readonly value?: unknown } {
+    return path.reduce<{ readonly found: boolean, readonly value?: unknown }>((result, segment) => {
+        if (!result.found) {
+            return result
+        }
+        if (Array.isArray(result.value) && typeof segment === "number") {
+            return segment < result.value.length ? { found: true, value: result.value[segment] } : { found: false }
+        }
+        if (isPlainObject(result.value) && Object.hasOwn(result.value, segment)) {
+            return { found: true, value: result.value[segment] }
+        }
+        return { found: false }
+    }, { found: true, value })
+}
+
+/**
+ * Replace the value at a path, creating plain objects along the way where needed.
+ * @param value The value.
+ * @param path The path.
+ * @param replacement The value to put at the path, or nothing to remove the property at the path.
+ * @returns The updated value.
+ */
+export function replacePath(value: unknown, path: FormErrorPath, replacement: { readonly found: boolean, readonly value?: unknown }): unknown {
+    const [key, ...rest] = path
+    if (key === undefined) {
+        return replacement.value
+    }
+    if (Array.isArray(value) && typeof key === "number") {
+        return value.map((item, index) => index === key ? replacePath(item, rest, replacement) : item)
+    }
+    const object = isPlainObject(value) ? value : {}
+    if (rest.length === 0 && !replacement.found) {
+        const { [key]: _, ...remaining } = object
+        return remaining
+    }
+    return {
+        ...object,
+        [key]: replacePath(object[key], rest, replacement),
+    }
+}
+
+/**
+ * Drop the properties of an object that are undefined, so that spreading it does not override defaults.
+ */
+export function definedProps<T extends object>(object: T) {
+    return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined)) as Partial<T>
+}
+
+const parsedPathKeys = new WeakMap<object, readonly FormErrorPath[]>()
+
+/**
+ * Get the paths of a map by path key. These are parsed once per map, as every field looks them up on every render.
+ */
+export function parsePathKeys(map: { readonly [path: string]: unknown }) {
+    const cached = parsedPathKeys.get(map)
+    if (cached !== undefined) {
+        return cached
+    }
+    const paths = Object.keys(map).map(key => JSON.parse(key) as FormErrorPath)
+    parsedPathKeys.set(map, paths)
+    return paths
+}